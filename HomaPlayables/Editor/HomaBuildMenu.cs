@@ -441,7 +441,8 @@ namespace HomaPlayables.Editor
                             step = attr.Step,
                             options = options,
                             section = section,
-                            order = attr.Order
+                            order = attr.Order,
+                            requiresRestart = attr.RequiresRestart
                         });
                     }
                     
@@ -498,6 +499,7 @@ namespace HomaPlayables.Editor
             public string[] options;
             public string section;
             public int order;
+            public bool requiresRestart;
         }
     }
 }
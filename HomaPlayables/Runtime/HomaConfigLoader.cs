@@ -12,10 +12,57 @@ namespace HomaPlayables
         [DllImport("__Internal")]
         private static extern string HomaGetConfigJson();
 
+        [DllImport("__Internal")]
+        private static extern void HomaListenForVariables(string gameObjectName, string methodName);
+
+        /// <summary>
+        /// Raised with the variable names after the editor preview changed values live.
+        /// Code that only reads a value in Awake/Start can re-read it here.
+        /// </summary>
+        public static event System.Action<IReadOnlyList<string>> ConfigChanged;
+
         [RuntimeInitializeOnLoadMethod(RuntimeInitializeLoadType.AfterSceneLoad)]
         public static void Initialize()
         {
             LoadAndApplyConfig();
+            ListenForLiveUpdates();
+        }
+
+        private static void ListenForLiveUpdates()
+        {
+#if UNITY_WEBGL && !UNITY_EDITOR
+            try
+            {
+                GameObject receiverGo = new GameObject("HomaLiveConfigReceiver");
+                Object.DontDestroyOnLoad(receiverGo);
+                receiverGo.AddComponent<HomaLiveConfigReceiver>();
+                HomaListenForVariables(receiverGo.name, nameof(HomaLiveConfigReceiver.OnHomaVariables));
+            }
+            catch (System.Exception e)
+            {
+                Debug.LogWarning($"[Homa] Could not listen for live variable updates: {e.Message}");
+            }
+#endif
+        }
+
+        /// <summary>
+        /// Applies the variables the editor preview changed, without restarting the game.
+        /// </summary>
+        public static void ApplyLiveUpdate(string json)
+        {
+            try
+            {
+                HomaConfig config = JsonUtility.FromJson<HomaConfig>(json);
+                if (config == null || config.variables == null) return;
+
+                Debug.Log($"[Homa] Live update of {config.variables.Count} variables");
+                ApplyVariables(config, false);
+                ConfigChanged?.Invoke(config.variables.Select(v => v.name).ToList());
+            }
+            catch (System.Exception e)
+            {
+                Debug.LogError($"[Homa] Error applying live update: {e.Message}\n{e.StackTrace}");
+            }
         }
 
         private static void LoadAndApplyConfig()
@@ -59,7 +106,19 @@ namespace HomaPlayables
                 }
 
                 Debug.Log($"[Homa] Applying config with {config.variables.Count} variables...");
-                
+                ApplyVariables(config, true);
+            }
+            catch (System.Exception e)
+            {
+                Debug.LogError($"[Homa] Error applying config: {e.Message}\n{e.StackTrace}");
+            }
+        }
+
+        // A live update only holds the changed variables, so missing ones are expected there
+        private static void ApplyVariables(HomaConfig config, bool warnMissing)
+        {
+            try
+            {
                 // Log all variables in config
                 foreach (var v in config.variables)
                 {
@@ -96,7 +155,7 @@ namespace HomaPlayables
                                 Debug.Log($"[Homa]   New value: {field.GetValue(mono)}");
                                 appliedCount++;
                             }
-                            else
+                            else if (warnMissing)
                             {
                                 Debug.LogWarning($"[Homa] No config found for variable: {varName} (field: {type.Name}.{field.Name})");
                                 skippedCount++;
@@ -109,7 +168,7 @@ namespace HomaPlayables
             }
             catch (System.Exception e)
             {
-                Debug.LogError($"[Homa] Error applying config: {e.Message}\n{e.StackTrace}");
+                Debug.LogError($"[Homa] Error applying variables: {e.Message}\n{e.StackTrace}");
             }
         }
 
@@ -214,6 +273,15 @@ namespace HomaPlayables
         }
     }
 
+    // Receives the live updates HomaBridge.jslib forwards with SendMessage
+    public class HomaLiveConfigReceiver : MonoBehaviour
+    {
+        public void OnHomaVariables(string json)
+        {
+            HomaConfigLoader.ApplyLiveUpdate(json);
+        }
+    }
+
     // Fallback async loader
     public class HomaConfigLoaderBehaviour : MonoBehaviour
     {
@@ -13,6 +13,7 @@ namespace HomaPlayables
         public float Max;
         public float Step;
         public string[] Options;
+        public bool RequiresRestart; // Only read at startup, the editor preview reloads instead of updating it live
 
         public HomaVarAttribute(string name, int order = 0, string section = null)
         {
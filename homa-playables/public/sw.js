@@ -1,6 +1,9 @@
 const DB_NAME = 'homa-playables-db';
 const STORE_NAME = 'preview-files';
-const SW_VERSION = '1.4'; // Bump to ensure update
+const OVERLAY_STORE_NAME = 'preview-overlay';
+const SESSION_STORE_NAME = 'previewSessions';
+const BLOB_STORE_NAME = 'blobs';
+const SW_VERSION = '1.9'; // Bump to ensure update
 
 self.addEventListener('install', (event) => {
     console.log(`[SW] Installing version ${SW_VERSION}`);
@@ -23,21 +26,26 @@ self.addEventListener('fetch', (event) => {
 
 async function handlePreviewRequest(url) {
     try {
-        // Path format: /preview/<projectId>/<filePath>
+        // Path format: /preview/<projectId>/<sessionId>/<filePath>
         const pathParts = url.pathname.split('/');
-        // ["", "preview", "projectId", ...filePathParts]
+        // ["", "preview", "projectId", "sessionId", ...filePathParts]
 
-        if (pathParts.length < 4) {
+        if (pathParts.length < 5) {
             return new Response('Invalid preview URL', { status: 400 });
         }
 
         const projectId = pathParts[2];
-        const filePath = pathParts.slice(3).join('/'); // Reconstruct file path
+        const sessionId = pathParts[3]; // See src/utils/PreviewSession.ts
+        const filePath = pathParts.slice(4).join('/'); // Reconstruct file path
 
-        console.log(`[SW] Fetching: ${filePath} for project ${projectId}`);
+        console.log(`[SW] Fetching: ${filePath} for project ${projectId}, session ${sessionId}`);
 
         const db = await openDB();
-        const fileBlob = await getFile(db, projectId, filePath);
+        const session = await getRecord(db, SESSION_STORE_NAME, sessionId);
+        if (!session || session.projectId !== projectId) {
+            return new Response(`Preview session not found: ${sessionId}`, { status: 404 });
+        }
+        const fileBlob = await getFile(db, session, filePath);
 
         if (!fileBlob) {
             console.error(`[SW] File not found: ${filePath}`);
@@ -74,7 +82,7 @@ async function handlePreviewRequest(url) {
 
         // INJECT CONFIG INTO HTML
         if (filePath.endsWith('.html')) {
-            const configBlob = await getFile(db, projectId, 'homa_config.json');
+            const configBlob = await getFile(db, session, 'homa_config.json');
             if (configBlob) {
                 const configText = await configBlob.text();
                 let htmlText = await fileBlob.text();
@@ -93,6 +101,7 @@ async function handlePreviewRequest(url) {
                     window.HOMA_CONFIG = ${configText};
                     console.log('[HOMA] Config injected:', window.HOMA_CONFIG);
                     console.log('[HOMA] Variables:', window.HOMA_CONFIG.variables?.map(v => v.name + '=' + v.value).join(', '));
+                    ${LIVE_UPDATE_BRIDGE}
                 </script>`;
                 htmlText = htmlText.replace('<head>', '<head>' + configScript);
 
@@ -103,7 +112,7 @@ async function handlePreviewRequest(url) {
                     headers: headers
                 });
             } else {
-                console.warn('[SW] No homa_config.json found for project:', projectId);
+                console.warn('[SW] No homa_config.json found for session:', sessionId);
             }
         }
 
@@ -120,6 +129,28 @@ async function handlePreviewRequest(url) {
     }
 }
 
+// Live variable updates from the editor, see src/utils/LivePreview.ts.
+// HomaBridge.jslib (HomaPlayables package) applies the values in the game and calls preventDefault() on "homa:variables".
+const LIVE_UPDATE_BRIDGE = `
+    window.addEventListener('message', function (event) {
+        var data = event.data;
+        if (event.origin !== location.origin || !data || data.type !== 'homa_set_variables') return;
+
+        var config = window.HOMA_CONFIG = window.HOMA_CONFIG || {};
+        var variables = config.variables = config.variables || [];
+        data.variables.forEach(function (update) {
+            var existing = variables.find(function (v) { return v.name === update.name; });
+            if (existing) existing.value = update.value;
+            else variables.push({ name: update.name, value: update.value });
+        });
+
+        var notification = new CustomEvent('homa:variables', { detail: { variables: data.variables }, cancelable: true });
+        var applied = !window.dispatchEvent(notification);
+        console.log('[HOMA] Live update of ' + data.variables.length + ' variable(s), ' + (applied ? 'applied' : 'not handled'));
+        event.source.postMessage({ type: 'homa_variables_ack', id: data.id, applied: applied }, event.origin);
+    });
+`;
+
 // Simple IDB wrapper
 function openDB() {
     return new Promise((resolve, reject) => {
@@ -129,12 +160,25 @@ function openDB() {
     });
 }
 
-function getFile(db, projectId, filePath) {
+function getRecord(db, storeName, key) {
     return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_NAME, 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.get([projectId, filePath]);
+        const transaction = db.transaction(storeName, 'readonly');
+        const store = transaction.objectStore(storeName);
+        const request = store.get(key);
         request.onerror = () => reject(request.error);
         request.onsuccess = () => resolve(request.result);
     });
 }
+
+// Preview files reference their content in the blob store by hash.
+// A session's own files (config, picked assets) take precedence over the files of the build it previews.
+async function getFile(db, session, filePath) {
+    const ref = await getRecord(db, OVERLAY_STORE_NAME, [session.id, filePath])
+        || (session.zipHash && await getRecord(db, STORE_NAME, [session.projectId, session.zipHash, filePath]));
+    if (!ref || ref instanceof Blob) return ref; // Files saved before the blob store
+
+    const stored = await getRecord(db, BLOB_STORE_NAME, ref.hash);
+    if (!stored) return undefined;
+    // Identical content may have been stored first under another MIME type
+    return stored.blob.type === ref.type ? stored.blob : stored.blob.slice(0, stored.blob.size, ref.type);
+}
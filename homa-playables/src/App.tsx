@@ -3,7 +3,9 @@ import { DashboardLayout } from './layouts/DashboardLayout';
 import { Dashboard } from './pages/Dashboard';
 import { ProjectHub } from './pages/ProjectHub';
 import { Editor } from './pages/Editor';
+import { Compare } from './pages/Compare';
 import { MediaLibrary } from './pages/MediaLibrary';
+import { Storage } from './pages/Storage';
 import './App.css';
 
 function App() {
@@ -14,7 +16,9 @@ function App() {
           <Route index element={<Dashboard />} />
           <Route path="project/:id" element={<ProjectHub />} />
           <Route path="project/:id/concept/:conceptId" element={<Editor />} />
+          <Route path="project/:id/compare" element={<Compare />} />
           <Route path="media" element={<MediaLibrary />} />
+          <Route path="storage" element={<Storage />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Route>
       </Routes>
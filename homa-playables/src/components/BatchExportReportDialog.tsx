@@ -0,0 +1,169 @@
+import React from 'react';
+import { X, AlertCircle, CheckCircle } from 'lucide-react';
+import { formatFileSize } from '../utils/AssetInliner';
+import type { ExportReport } from '../utils/ExportReport';
+import type { BatchExportResult } from '../utils/ExportManager';
+import type { ComplianceIssue } from '../utils/ComplianceChecker';
+
+interface BatchExportReportDialogProps {
+    result: BatchExportResult;
+    networkLabels: Record<string, string>;
+    onClose: () => void;
+}
+
+interface BatchRow {
+    item: string;
+    network: string;
+    report?: ExportReport; // Missing when the export failed before it was built
+    issues: ComplianceIssue[];
+    error?: string;
+}
+
+export const BatchExportReportDialog: React.FC<BatchExportReportDialogProps> = ({
+    result,
+    networkLabels,
+    onClose
+}) => {
+    // One row per export: built ones from the reports, then those that failed before building
+    const rows: BatchRow[] = result.reports.map(({ item, report }) => ({
+        item,
+        network: report.network,
+        report,
+        issues: result.compliance.find(c => c.item === item && c.network === report.network)?.issues ?? []
+    }));
+    for (const failure of result.failures) {
+        const row = rows.find(r => r.item === failure.item && r.network === failure.network);
+        if (row) {
+            row.error = failure.error;
+        } else {
+            rows.push({ item: failure.item, network: failure.network, issues: [], error: failure.error });
+        }
+    }
+
+    const cellStyle: React.CSSProperties = {
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--color-border)',
+        fontSize: '13px',
+        textAlign: 'right',
+        verticalAlign: 'top'
+    };
+
+    const renderCompliance = (issues: ComplianceIssue[]) => {
+        const errors = issues.filter(i => i.severity === 'error').length;
+        const warnings = issues.length - errors;
+        if (issues.length === 0) {
+            return <CheckCircle size={14} color="#4ade80" />;
+        }
+        return (
+            <span
+                title={issues.map(i => `${i.ruleId}: ${i.message}`).join('\n')}
+                style={{ display: 'inline-flex', alignItems: 'center', gap: '4px', color: errors > 0 ? '#ef4444' : '#f59e0b' }}
+            >
+                <AlertCircle size={14} />
+                {errors > 0 ? `${errors} error(s)` : `${warnings} warning(s)`}
+            </span>
+        );
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0, left: 0, right: 0, bottom: 0,
+            backgroundColor: 'rgba(0,0,0,0.7)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
+        }}>
+            <div style={{
+                width: '800px',
+                maxHeight: '90vh',
+                backgroundColor: 'var(--color-bg-primary)',
+                borderRadius: 'var(--radius-lg)',
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+                boxShadow: '0 20px 50px rgba(0,0,0,0.3)'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderBottom: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center'
+                }}>
+                    <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>Batch Export Report</h2>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-text-secondary)' }}
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', overflowY: 'auto' }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr style={{ color: 'var(--color-text-secondary)' }}>
+                                <th style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>Concept</th>
+                                <th style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>Network</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Size</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Headroom</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Compliance</th>
+                                <th style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={`${row.network}/${row.item}`}>
+                                    <td style={{ ...cellStyle, textAlign: 'left' }}>{row.item}</td>
+                                    <td style={{ ...cellStyle, textAlign: 'left' }}>{networkLabels[row.network] ?? row.network}</td>
+                                    <td style={cellStyle}>
+                                        {row.report ? `${formatFileSize(row.report.totalSize)} / ${formatFileSize(row.report.limit)}` : '—'}
+                                    </td>
+                                    <td style={{ ...cellStyle, color: row.report?.overLimit ? 'var(--color-error)' : undefined }}>
+                                        {!row.report ? '—' : row.report.overLimit
+                                            ? `${formatFileSize(-row.report.headroom)} over`
+                                            : formatFileSize(row.report.headroom)}
+                                    </td>
+                                    <td style={cellStyle}>{row.report ? renderCompliance(row.issues) : '—'}</td>
+                                    <td style={{ ...cellStyle, textAlign: 'left', color: row.error ? 'var(--color-error)' : 'var(--color-text-secondary)' }}>
+                                        {row.error ? `Failed: ${row.error}` : 'Exported'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {/* Footer */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderTop: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: '12px'
+                }}>
+                    <span style={{ fontSize: '12px', color: 'var(--color-text-secondary)' }}>
+                        Exported {result.exported} of {rows.length} file(s)
+                    </span>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            padding: '8px 16px',
+                            backgroundColor: 'var(--color-accent)',
+                            border: 'none',
+                            color: 'white',
+                            borderRadius: 'var(--radius-sm)',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
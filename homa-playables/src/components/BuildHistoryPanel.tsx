@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, History, Pin } from 'lucide-react';
+import type { BuildRevision, Concept } from '../types';
+import { formatFileSize } from '../utils/AssetInliner';
+import { migrateBuild } from '../utils/BuildMigration';
+import { VariableDiffList } from './VariableDiffList';
+
+interface BuildHistoryPanelProps {
+    revisions: BuildRevision[]; // Newest first
+    currentRevisionId?: string;
+    concepts: Concept[];
+    onRename: (revisionId: string, label: string) => Promise<void>;
+}
+
+export const BuildHistoryPanel: React.FC<BuildHistoryPanelProps> = ({
+    revisions,
+    currentRevisionId,
+    concepts,
+    onRename
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editedLabel, setEditedLabel] = useState('');
+
+    const toggleSelected = (revisionId: string) => {
+        setSelected(prev => prev.includes(revisionId)
+            ? prev.filter(id => id !== revisionId)
+            : [...prev, revisionId].slice(-2) // Diff compares two revisions
+        );
+    };
+
+    const saveLabel = async () => {
+        if (editingId && editedLabel.trim()) {
+            await onRename(editingId, editedLabel.trim());
+        }
+        setEditingId(null);
+    };
+
+    // Older revision first so the diff reads as "what changed since"
+    const compared = revisions
+        .filter(r => selected.includes(r.id))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    const diff = compared.length === 2
+        ? migrateBuild(compared[0].variables, compared[1].variables, []).report
+        : null;
+
+    const cellStyle: React.CSSProperties = {
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--color-border)',
+        fontSize: '13px',
+        textAlign: 'left'
+    };
+
+    return (
+        <div style={{
+            backgroundColor: 'var(--color-bg-secondary)',
+            borderRadius: 'var(--radius-lg)',
+            border: '1px solid var(--color-border)',
+            marginBottom: '24px'
+        }}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                style={{
+                    width: '100%',
+                    padding: '16px 24px',
+                    background: 'none',
+                    border: 'none',
+                    color: 'var(--color-text-primary)',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    fontSize: '16px',
+                    fontWeight: 600
+                }}
+            >
+                {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                <History size={16} />
+                Build History
+                <span style={{ fontSize: '13px', fontWeight: 400, color: 'var(--color-text-secondary)' }}>
+                    ({revisions.length})
+                </span>
+            </button>
+
+            {isOpen && (
+                <div style={{ padding: '0 24px 24px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr style={{ color: 'var(--color-text-secondary)' }}>
+                                <th style={{ ...cellStyle, width: '32px' }} />
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Label</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Uploaded</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Unity / Plugin</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Size</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Hash</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Pinned</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {revisions.map(revision => {
+                                const pinned = concepts.filter(c => c.buildRevisionId === revision.id).length;
+                                return (
+                                    <tr key={revision.id}>
+                                        <td style={cellStyle}>
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.includes(revision.id)}
+                                                onChange={() => toggleSelected(revision.id)}
+                                                title="Select two builds to compare"
+                                            />
+                                        </td>
+                                        <td style={cellStyle}>
+                                            {editingId === revision.id ? (
+                                                <input
+                                                    autoFocus
+                                                    value={editedLabel}
+                                                    onChange={(e) => setEditedLabel(e.target.value)}
+                                                    onBlur={saveLabel}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') saveLabel();
+                                                        if (e.key === 'Escape') setEditingId(null);
+                                                    }}
+                                                    style={{
+                                                        padding: '4px 8px',
+                                                        borderRadius: 'var(--radius-sm)',
+                                                        border: '1px solid var(--color-accent)',
+                                                        backgroundColor: 'var(--color-bg-primary)',
+                                                        color: 'var(--color-text-primary)'
+                                                    }}
+                                                />
+                                            ) : (
+                                                <span
+                                                    onClick={() => { setEditingId(revision.id); setEditedLabel(revision.label); }}
+                                                    title="Click to rename"
+                                                    style={{ cursor: 'pointer' }}
+                                                >
+                                                    {revision.label}
+                                                </span>
+                                            )}
+                                            {revision.id === currentRevisionId && (
+                                                <span style={{
+                                                    marginLeft: '8px',
+                                                    fontSize: '11px',
+                                                    color: 'var(--color-accent)',
+                                                    border: '1px solid var(--color-accent)',
+                                                    borderRadius: '10px',
+                                                    padding: '1px 6px'
+                                                }}>
+                                                    current
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td style={cellStyle}>{new Date(revision.createdAt).toLocaleString()}</td>
+                                        <td style={cellStyle}>
+                                            {revision.buildInfo
+                                                ? `${revision.buildInfo.unityVersion || '?'} / ${revision.buildInfo.pluginVersion || '?'}`
+                                                : '—'}
+                                        </td>
+                                        <td style={cellStyle}>{formatFileSize(revision.size)}</td>
+                                        <td style={{ ...cellStyle, fontFamily: 'monospace' }} title={revision.hash}>
+                                            {revision.hash.slice(0, 8)}
+                                        </td>
+                                        <td style={cellStyle}>
+                                            {pinned > 0 && (
+                                                <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                                                    <Pin size={12} /> {pinned}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    {diff ? (
+                        <div>
+                            <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0' }}>
+                                {compared[0].label} → {compared[1].label}
+                            </h3>
+                            <VariableDiffList report={diff} />
+                        </div>
+                    ) : (
+                        <div style={{ fontSize: '13px', color: 'var(--color-text-secondary)' }}>
+                            Select two builds to compare their variables. Pin a concept to a build from the concept editor.
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
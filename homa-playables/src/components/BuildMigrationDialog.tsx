@@ -0,0 +1,162 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import type { BuildMigrationReport, ConceptValueChange } from '../utils/BuildMigration';
+import { VariableDiffList } from './VariableDiffList';
+
+interface BuildMigrationDialogProps {
+    fileName: string;
+    report: BuildMigrationReport;
+    isApplying: boolean;
+    onClose: () => void;
+    onApply: () => void;
+}
+
+const CHANGE_LABELS: Record<ConceptValueChange['kind'], string> = {
+    renamed: 'moved',
+    converted: 'converted',
+    clamped: 'clamped',
+    reset: 'reset to default',
+    orphaned: 'orphaned'
+};
+
+function formatValue(value: unknown): string {
+    if (value === undefined) return 'default';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export const BuildMigrationDialog: React.FC<BuildMigrationDialogProps> = ({
+    fileName,
+    report,
+    isApplying,
+    onClose,
+    onApply
+}) => {
+    const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' };
+    const nameStyle: React.CSSProperties = { fontFamily: 'monospace' };
+    const mutedStyle: React.CSSProperties = { color: 'var(--color-text-secondary)' };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0, left: 0, right: 0, bottom: 0,
+            backgroundColor: 'rgba(0,0,0,0.7)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
+        }}>
+            <div style={{
+                width: '640px',
+                maxHeight: '90vh',
+                backgroundColor: 'var(--color-bg-primary)',
+                borderRadius: 'var(--radius-lg)',
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+                boxShadow: '0 20px 50px rgba(0,0,0,0.3)'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderBottom: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center'
+                }}>
+                    <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>Update Build</h2>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-text-secondary)' }}
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', display: 'flex', flexDirection: 'column', gap: '20px', overflowY: 'auto' }}>
+                    <div style={{ fontSize: '14px', ...mutedStyle }}>{fileName}</div>
+
+                    {/* Variables */}
+                    <div>
+                        <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0' }}>Variables</h3>
+                        <VariableDiffList report={report} />
+                    </div>
+
+                    {/* Concepts */}
+                    <div>
+                        <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0' }}>Concepts</h3>
+                        {report.concepts.length === 0 ? (
+                            <div style={{ fontSize: '13px', ...mutedStyle }}>All concept values carry over unchanged</div>
+                        ) : (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                                {report.concepts.map(concept => (
+                                    <div key={concept.conceptId}>
+                                        <div style={{ fontSize: '13px', fontWeight: 500, marginBottom: '4px' }}>{concept.conceptName}</div>
+                                        {concept.changes.map((change, index) => (
+                                            <div key={index} style={{ ...rowStyle, paddingLeft: '12px' }}>
+                                                <span style={nameStyle}>{change.variable}</span>
+                                                <span style={{ color: change.kind === 'orphaned' || change.kind === 'reset' ? '#f59e0b' : 'var(--color-text-secondary)' }}>
+                                                    {CHANGE_LABELS[change.kind]}
+                                                </span>
+                                                {change.kind !== 'orphaned' && change.kind !== 'renamed' && (
+                                                    <span style={mutedStyle}>{formatValue(change.from)} → {formatValue(change.to)}</span>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div style={{ fontSize: '12px', ...mutedStyle, marginTop: '8px' }}>
+                            Orphaned values are kept on the concept but ignored by the preview and exports.
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderTop: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: '12px'
+                }}>
+                    <span style={{ fontSize: '12px', ...mutedStyle }}>
+                        The current build is kept and can be restored.
+                    </span>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                        <button
+                            onClick={onClose}
+                            disabled={isApplying}
+                            style={{
+                                padding: '8px 16px',
+                                backgroundColor: 'transparent',
+                                border: '1px solid var(--color-border)',
+                                color: 'var(--color-text-primary)',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={onApply}
+                            disabled={isApplying}
+                            style={{
+                                padding: '8px 16px',
+                                backgroundColor: 'var(--color-accent)',
+                                border: 'none',
+                                color: 'white',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: isApplying ? 'not-allowed' : 'pointer',
+                                opacity: isApplying ? 0.5 : 1
+                            }}
+                        >
+                            {isApplying ? 'Updating...' : 'Update Build'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
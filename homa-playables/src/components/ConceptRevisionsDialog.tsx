@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { X, RotateCcw, ArrowRight } from 'lucide-react';
+import type { ConceptRevision, Variable } from '../types';
+import { diffConceptValues } from '../utils/ConceptDiff';
+import { formatVariableText } from '../utils/VariableCodec';
+
+interface ConceptRevisionsDialogProps {
+    revisions: ConceptRevision[]; // Newest first
+    variables: Variable[];
+    onRestore: (revision: ConceptRevision) => Promise<void>;
+    onClose: () => void;
+}
+
+function revisionLabel(revision: ConceptRevision): string {
+    return revision.message || new Date(revision.createdAt).toLocaleString();
+}
+
+function formatValue(type: string, value: unknown): string {
+    return value === undefined ? 'build default' : formatVariableText(type, value);
+}
+
+/**
+ * Timeline of a concept's saves with a diff of any two
+ */
+export const ConceptRevisionsDialog: React.FC<ConceptRevisionsDialogProps> = ({
+    revisions,
+    variables,
+    onRestore,
+    onClose
+}) => {
+    // The latest save against the one before is the usual question
+    const [selected, setSelected] = useState<string[]>(() => revisions.slice(0, 2).map(r => r.id));
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    const toggleSelected = (revisionId: string) => {
+        setSelected(prev => prev.includes(revisionId)
+            ? prev.filter(id => id !== revisionId)
+            : [...prev, revisionId].slice(-2) // Diff compares two revisions
+        );
+    };
+
+    const handleRestore = async (revision: ConceptRevision) => {
+        setRestoringId(revision.id);
+        try {
+            await onRestore(revision);
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    // Older revision first so the diff reads as "what changed since"
+    const compared = revisions
+        .filter(r => selected.includes(r.id))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    const diff = compared.length === 2 ? diffConceptValues(variables, compared[0].values, compared[1].values) : null;
+
+    const mutedStyle: React.CSSProperties = { fontSize: '12px', color: 'var(--color-text-secondary)' };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0, left: 0, right: 0, bottom: 0,
+            backgroundColor: 'rgba(0,0,0,0.7)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
+        }}>
+            <div style={{
+                width: '800px',
+                height: '80vh',
+                backgroundColor: 'var(--color-bg-primary)',
+                borderRadius: 'var(--radius-lg)',
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+                boxShadow: '0 20px 50px rgba(0,0,0,0.3)'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderBottom: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center'
+                }}>
+                    <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>Revisions</h2>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-text-secondary)' }}
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+                    {/* Timeline */}
+                    <div style={{ width: '320px', borderRight: '1px solid var(--color-border)', overflowY: 'auto' }}>
+                        {revisions.length === 0 && (
+                            <div style={{ ...mutedStyle, padding: '24px' }}>Every save of this concept will be listed here.</div>
+                        )}
+                        {revisions.map((revision, index) => {
+                            const restoredFrom = revision.restoredFromId && revisions.find(r => r.id === revision.restoredFromId);
+                            return (
+                                <div
+                                    key={revision.id}
+                                    style={{
+                                        padding: '12px 16px',
+                                        borderBottom: '1px solid var(--color-border)',
+                                        display: 'flex',
+                                        gap: '10px',
+                                        alignItems: 'flex-start',
+                                        backgroundColor: selected.includes(revision.id) ? 'var(--color-bg-tertiary)' : 'transparent'
+                                    }}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.includes(revision.id)}
+                                        onChange={() => toggleSelected(revision.id)}
+                                        title="Select two revisions to compare"
+                                        style={{ marginTop: '3px' }}
+                                    />
+                                    <div style={{ flex: 1, minWidth: 0 }}>
+                                        <div style={{ fontSize: '13px', fontWeight: 500, overflowWrap: 'anywhere' }}>
+                                            {revisionLabel(revision)}
+                                            {index === 0 && (
+                                                <span style={{
+                                                    marginLeft: '8px',
+                                                    fontSize: '11px',
+                                                    color: 'var(--color-accent)',
+                                                    border: '1px solid var(--color-accent)',
+                                                    borderRadius: '10px',
+                                                    padding: '1px 6px'
+                                                }}>
+                                                    latest
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div style={mutedStyle}>{new Date(revision.createdAt).toLocaleString()}</div>
+                                        {revision.restoredFromId && (
+                                            <div style={mutedStyle}>
+                                                Restored from {restoredFrom ? revisionLabel(restoredFrom) : 'a deleted revision'}
+                                            </div>
+                                        )}
+                                    </div>
+                                    {index > 0 && (
+                                        <button
+                                            onClick={() => handleRestore(revision)}
+                                            disabled={restoringId !== null}
+                                            title="Restore as a new revision"
+                                            style={{
+                                                background: 'none',
+                                                border: '1px solid var(--color-border)',
+                                                borderRadius: 'var(--radius-sm)',
+                                                color: 'var(--color-text-secondary)',
+                                                cursor: restoringId !== null ? 'not-allowed' : 'pointer',
+                                                padding: '4px 6px',
+                                                display: 'flex',
+                                                alignItems: 'center'
+                                            }}
+                                        >
+                                            <RotateCcw size={14} />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Diff */}
+                    <div style={{ flex: 1, overflowY: 'auto', padding: '16px 24px' }}>
+                        {!diff ? (
+                            <div style={{ ...mutedStyle, fontSize: '13px' }}>Select two revisions to compare their values.</div>
+                        ) : (
+                            <>
+                                <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 16px 0', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                    {revisionLabel(compared[0])} <ArrowRight size={14} /> {revisionLabel(compared[1])}
+                                </h3>
+                                {diff.length === 0 && (
+                                    <div style={{ ...mutedStyle, fontSize: '13px' }}>Same values in both revisions</div>
+                                )}
+                                {diff.map(({ section, changes }) => (
+                                    <div key={section} style={{ marginBottom: '16px' }}>
+                                        <div style={{ fontSize: '12px', fontWeight: 600, textTransform: 'uppercase', color: 'var(--color-text-secondary)', marginBottom: '6px' }}>
+                                            {section}
+                                        </div>
+                                        {changes.map(change => (
+                                            <div key={change.name} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', padding: '3px 0' }}>
+                                                <span style={{ fontFamily: 'monospace', minWidth: '140px' }}>{change.name}</span>
+                                                <span style={{ color: '#ef4444', textDecoration: 'line-through' }}>{formatValue(change.type, change.from)}</span>
+                                                <ArrowRight size={12} color="var(--color-text-secondary)" />
+                                                <span style={{ color: '#4ade80' }}>{formatValue(change.type, change.to)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
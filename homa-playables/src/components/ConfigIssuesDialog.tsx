@@ -0,0 +1,149 @@
+import React from 'react';
+import { X, AlertCircle, Info } from 'lucide-react';
+import type { ConfigIssue } from '../utils/ConfigSchema';
+
+interface ConfigIssuesDialogProps {
+    fileName: string;
+    issues: ConfigIssue[];
+    migratedFrom?: string;
+    onClose: () => void;
+    onImport?: () => void; // Omitted when the build cannot be imported at all
+}
+
+export const ConfigIssuesDialog: React.FC<ConfigIssuesDialogProps> = ({
+    fileName,
+    issues,
+    migratedFrom,
+    onClose,
+    onImport
+}) => {
+    const errors = issues.filter(i => i.severity === 'error');
+    const warnings = issues.filter(i => i.severity === 'warning');
+    const canImport = !!onImport && errors.length === 0;
+
+    const renderIssue = (issue: ConfigIssue, index: number) => (
+        <div key={index} style={{ display: 'flex', gap: '8px', fontSize: '13px' }}>
+            <AlertCircle
+                size={14}
+                color={issue.severity === 'error' ? '#ef4444' : '#f59e0b'}
+                style={{ flexShrink: 0, marginTop: '2px' }}
+            />
+            <div>
+                {issue.path && <span style={{ fontFamily: 'monospace', color: 'var(--color-text-secondary)' }}>{issue.path}</span>}
+                {issue.path && ' '}{issue.message}
+            </div>
+        </div>
+    );
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0, left: 0, right: 0, bottom: 0,
+            backgroundColor: 'rgba(0,0,0,0.7)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
+        }}>
+            <div style={{
+                width: '560px',
+                maxHeight: '90vh',
+                backgroundColor: 'var(--color-bg-primary)',
+                borderRadius: 'var(--radius-lg)',
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+                boxShadow: '0 20px 50px rgba(0,0,0,0.3)'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderBottom: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center'
+                }}>
+                    <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>
+                        {errors.length > 0 ? 'Cannot import build' : 'Review import'}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-text-secondary)' }}
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', display: 'flex', flexDirection: 'column', gap: '20px', overflowY: 'auto' }}>
+                    <div style={{ fontSize: '14px', color: 'var(--color-text-secondary)' }}>{fileName}</div>
+
+                    {migratedFrom && (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' }}>
+                            <Info size={14} color="var(--color-accent)" />
+                            Config upgraded from version {migratedFrom} to the current format.
+                        </div>
+                    )}
+
+                    {errors.length > 0 && (
+                        <div>
+                            <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0' }}>Errors ({errors.length})</h3>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                {errors.map(renderIssue)}
+                            </div>
+                            <div style={{ fontSize: '12px', color: 'var(--color-text-secondary)', marginTop: '8px' }}>
+                                Fix these in Unity and rebuild the playable.
+                            </div>
+                        </div>
+                    )}
+
+                    {warnings.length > 0 && (
+                        <div>
+                            <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0' }}>Warnings ({warnings.length})</h3>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                {warnings.map(renderIssue)}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderTop: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'flex-end',
+                    gap: '8px'
+                }}>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            padding: '8px 16px',
+                            backgroundColor: 'transparent',
+                            border: '1px solid var(--color-border)',
+                            color: 'var(--color-text-primary)',
+                            borderRadius: 'var(--radius-sm)',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        {canImport ? 'Cancel' : 'Close'}
+                    </button>
+                    {canImport && (
+                        <button
+                            onClick={onImport}
+                            style={{
+                                padding: '8px 16px',
+                                backgroundColor: 'var(--color-accent)',
+                                border: 'none',
+                                color: 'white',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            Import
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
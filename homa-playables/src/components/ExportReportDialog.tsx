@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { X, AlertTriangle, AlertCircle, CheckCircle } from 'lucide-react';
+import { formatFileSize } from '../utils/AssetInliner';
+import type { ComplianceIssue } from '../utils/ComplianceChecker';
+import { EXPORT_PART_LABELS, exportedSize, type ExportReport } from '../utils/ExportReport';
+
+interface ExportReportDialogProps {
+    report: ExportReport;
+    issues: ComplianceIssue[];
+    filename: string;
+    onClose: () => void;
+    onDownload: () => void;
+}
+
+export const ExportReportDialog: React.FC<ExportReportDialogProps> = ({
+    report,
+    issues,
+    filename,
+    onClose,
+    onDownload
+}) => {
+    const [overrideLimit, setOverrideLimit] = useState(false);
+
+    const canDownload = !report.overLimit || overrideLimit;
+    const usedPercent = Math.min(100, (report.totalSize / report.limit) * 100);
+
+    const cellStyle: React.CSSProperties = {
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--color-border)',
+        fontSize: '13px',
+        textAlign: 'right'
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0, left: 0, right: 0, bottom: 0,
+            backgroundColor: 'rgba(0,0,0,0.7)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
+        }}>
+            <div style={{
+                width: '560px',
+                maxHeight: '90vh',
+                backgroundColor: 'var(--color-bg-primary)',
+                borderRadius: 'var(--radius-lg)',
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+                boxShadow: '0 20px 50px rgba(0,0,0,0.3)'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderBottom: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center'
+                }}>
+                    <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>{report.label} Export Report</h2>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-text-secondary)' }}
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', display: 'flex', flexDirection: 'column', gap: '20px', overflowY: 'auto' }}>
+                    {/* Budget */}
+                    <div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', marginBottom: '8px' }}>
+                            <span>{formatFileSize(report.totalSize)} of {formatFileSize(report.limit)}</span>
+                            <span style={{ color: report.overLimit ? 'var(--color-error)' : 'var(--color-text-secondary)' }}>
+                                {report.overLimit
+                                    ? `${formatFileSize(-report.headroom)} over limit`
+                                    : `${formatFileSize(report.headroom)} headroom`}
+                            </span>
+                        </div>
+                        <div style={{ height: '8px', backgroundColor: 'var(--color-bg-tertiary)', borderRadius: '4px', overflow: 'hidden' }}>
+                            <div style={{
+                                height: '100%',
+                                width: `${usedPercent}%`,
+                                backgroundColor: report.overLimit ? 'var(--color-error)' : 'var(--color-accent)'
+                            }} />
+                        </div>
+                    </div>
+
+                    {/* Breakdown */}
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr style={{ color: 'var(--color-text-secondary)' }}>
+                                <th style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>Part</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Compressed</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>{report.format === 'zip' ? 'Extracted' : 'In export'}</th>
+                                <th style={{ ...cellStyle, fontWeight: 500 }}>Share</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.parts.map(part => (
+                                <tr key={part.name}>
+                                    <td style={{ ...cellStyle, textAlign: 'left' }}>{EXPORT_PART_LABELS[part.name]}</td>
+                                    <td style={cellStyle}>{formatFileSize(part.compressed)}</td>
+                                    <td style={cellStyle}>{formatFileSize(part.inlined)}</td>
+                                    <td style={cellStyle}>{Math.round((exportedSize(report, part) / report.totalSize) * 100)}%</td>
+                                </tr>
+                            ))}
+                            {report.base64Overhead > 0 && (
+                                <tr style={{ color: 'var(--color-text-secondary)' }}>
+                                    <td style={{ ...cellStyle, textAlign: 'left' }}>Base64 overhead (included above)</td>
+                                    <td style={cellStyle}>—</td>
+                                    <td style={cellStyle}>{formatFileSize(report.base64Overhead)}</td>
+                                    <td style={cellStyle}>{Math.round((report.base64Overhead / report.totalSize) * 100)}%</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+
+                    {/* Compliance */}
+                    <div>
+                        <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0' }}>Compliance</h3>
+                        {issues.length === 0 ? (
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: 'var(--color-text-secondary)' }}>
+                                <CheckCircle size={14} color="#4ade80" />
+                                No issues found
+                            </div>
+                        ) : (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', maxHeight: '160px', overflowY: 'auto' }}>
+                                {issues.map((issue, index) => (
+                                    <div key={index} style={{ display: 'flex', gap: '8px', fontSize: '13px' }}>
+                                        <AlertCircle
+                                            size={14}
+                                            color={issue.severity === 'error' ? '#ef4444' : '#f59e0b'}
+                                            style={{ flexShrink: 0, marginTop: '2px' }}
+                                        />
+                                        <div>
+                                            <span style={{ fontFamily: 'monospace', color: 'var(--color-text-secondary)' }}>{issue.ruleId}</span>
+                                            {' '}{issue.message}
+                                            {issue.file && <span style={{ color: 'var(--color-text-secondary)' }}> ({issue.file})</span>}
+                                            {issue.excerpt && (
+                                                <div style={{ fontFamily: 'monospace', fontSize: '11px', color: 'var(--color-text-secondary)', marginTop: '2px' }}>
+                                                    {issue.excerpt}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {report.overLimit && (
+                        <div style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            gap: '12px',
+                            padding: '12px',
+                            borderRadius: 'var(--radius-sm)',
+                            border: '1px solid rgba(239, 68, 68, 0.3)',
+                            backgroundColor: 'rgba(239, 68, 68, 0.1)',
+                            fontSize: '13px'
+                        }}>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#ef4444' }}>
+                                <AlertTriangle size={16} />
+                                {report.label} will reject this file. Reduce texture quality or remove unused assets in Unity.
+                            </div>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={overrideLimit}
+                                    onChange={(e) => setOverrideLimit(e.target.checked)}
+                                />
+                                Download anyway, I know it is over the limit
+                            </label>
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderTop: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: '12px'
+                }}>
+                    <span style={{ fontSize: '12px', color: 'var(--color-text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {filename}
+                    </span>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                        <button
+                            onClick={onClose}
+                            style={{
+                                padding: '8px 16px',
+                                backgroundColor: 'transparent',
+                                border: '1px solid var(--color-border)',
+                                color: 'var(--color-text-primary)',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={onDownload}
+                            disabled={!canDownload}
+                            style={{
+                                padding: '8px 16px',
+                                backgroundColor: 'var(--color-accent)',
+                                border: 'none',
+                                color: 'white',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: canDownload ? 'pointer' : 'not-allowed',
+                                opacity: canDownload ? 1 : 0.5
+                            }}
+                        >
+                            Download
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
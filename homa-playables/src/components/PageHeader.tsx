@@ -7,9 +7,11 @@ export const PageHeader: React.FC = () => {
     const getPageTitle = (pathname: string): string => {
         if (pathname === '/') return 'Dashboard';
         if (pathname === '/media') return 'Media Library';
+        if (pathname === '/storage') return 'Storage';
 
         if (matchPath('/project/:id', pathname)) return 'Project Hub';
         if (matchPath('/project/:id/concept/:conceptId', pathname)) return 'Concept Editor';
+        if (matchPath('/project/:id/compare', pathname)) return 'Compare Concepts';
 
         return 'Homa Playables';
     };
@@ -1,4 +1,6 @@
-import React, { useState, useRef, useMemo, useEffect } from 'react';
+import React, { useState, useRef, useMemo, useEffect, useImperativeHandle } from 'react';
+import type { Variable } from '../types';
+import { pushVariables } from '../utils/LivePreview';
 
 // --- Types & Constants ---
 
@@ -39,18 +41,46 @@ const loadPresetsFromStorage = (): DevicePreset[] => {
 
 // --- Components ---
 
+export interface PlayablePreviewHandle {
+    /** Restart the build */
+    reload: () => void;
+    /** Send changed variables to the running build, false when it could not apply them live */
+    setVariables: (variables: Variable[]) => Promise<boolean>;
+}
+
+export interface PreviewDevice {
+    presetId: string;
+    isLandscape: boolean;
+}
+
 interface PlayablePreviewProps {
     src: string;
+    ref?: React.Ref<PlayablePreviewHandle>;
+    device?: PreviewDevice; // Set to share one device between several previews
+    onDeviceChange?: (device: PreviewDevice) => void;
+    showToolbar?: boolean;
 }
 
-export const PlayablePreview: React.FC<PlayablePreviewProps> = ({ src }) => {
+export const PlayablePreview: React.FC<PlayablePreviewProps> = ({ src, ref, device, onDeviceChange, showToolbar = true }) => {
     // State - Initialize presets from localStorage
     const [presets, setPresets] = useState<DevicePreset[]>(() => loadPresetsFromStorage());
-    const [selectedPresetId, setSelectedPresetId] = useState<string>(() => {
+    const [localPresetId, setLocalPresetId] = useState<string>(() => {
         const loaded = loadPresetsFromStorage();
         return loaded[0]?.id || DEFAULT_PRESETS[0].id;
     });
-    const [isLandscape, setIsLandscape] = useState(false);
+    const [localLandscape, setLocalLandscape] = useState(false);
+
+    // A device passed in wins over the local choice
+    const selectedPresetId = device?.presetId ?? localPresetId;
+    const isLandscape = device?.isLandscape ?? localLandscape;
+    const setSelectedPresetId = (presetId: string) => {
+        setLocalPresetId(presetId);
+        onDeviceChange?.({ presetId, isLandscape });
+    };
+    const setIsLandscape = (landscape: boolean) => {
+        setLocalLandscape(landscape);
+        onDeviceChange?.({ presetId: selectedPresetId, isLandscape: landscape });
+    };
 
     // Modal State
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -60,6 +90,23 @@ export const PlayablePreview: React.FC<PlayablePreviewProps> = ({ src }) => {
 
     const containerRef = useRef<HTMLDivElement>(null);
     const iframeRef = useRef<HTMLIFrameElement>(null);
+    const [lastUpdate, setLastUpdate] = useState<'live' | 'reload' | null>(null);
+
+    useImperativeHandle(ref, () => ({
+        reload: () => {
+            const iframe = iframeRef.current;
+            if (!iframe) return;
+            iframe.src = iframe.src;
+            setLastUpdate('reload');
+        },
+        setVariables: async (variables) => {
+            const target = iframeRef.current?.contentWindow;
+            if (!target) return false;
+            const applied = await pushVariables(target, variables);
+            if (applied) setLastUpdate('live');
+            return applied;
+        }
+    }), []);
 
     // Save presets to local storage whenever they change
     useEffect(() => {
@@ -68,11 +115,14 @@ export const PlayablePreview: React.FC<PlayablePreviewProps> = ({ src }) => {
 
     // Derived State
     const currentResolution = useMemo((): Resolution => {
-        const preset = presets.find(p => p.id === selectedPresetId) || presets[0];
+        // A shared device may use a preset another preview just created
+        const preset = presets.find(p => p.id === selectedPresetId)
+            || (device ? loadPresetsFromStorage().find(p => p.id === selectedPresetId) : undefined)
+            || presets[0];
         return isLandscape
             ? { width: preset.height, height: preset.width }
             : { width: preset.width, height: preset.height };
-    }, [selectedPresetId, isLandscape, presets]);
+    }, [selectedPresetId, isLandscape, presets, device]);
 
     // Scaling Logic
     // We want the VISUAL size to be determined ONLY by the aspect ratio and the available space.
@@ -199,7 +249,7 @@ export const PlayablePreview: React.FC<PlayablePreviewProps> = ({ src }) => {
 
             {/* Toolbar */}
             <div style={{
-                display: 'flex',
+                display: showToolbar ? 'flex' : 'none',
                 justifyContent: 'space-between',
                 alignItems: 'center',
                 padding: '16px 24px',
@@ -371,6 +421,11 @@ export const PlayablePreview: React.FC<PlayablePreviewProps> = ({ src }) => {
                     fontFamily: 'monospace'
                 }}>
                     {Math.round(contentScale * 100)}%
+                    {lastUpdate && (
+                        <span title={lastUpdate === 'live' ? 'Last change was applied without a restart' : 'Last change restarted the build'}>
+                            {' · '}{lastUpdate === 'live' ? 'live' : 'reloaded'}
+                        </span>
+                    )}
                 </div>
             </div>
 
@@ -5,6 +5,7 @@ export const Sidebar: React.FC = () => {
   const navItems = [
     { label: 'Projects', path: '/' },
     { label: 'Media Library', path: '/media' },
+    { label: 'Storage', path: '/storage' },
   ];
 
   return (
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { AdOrientation, AdSize, Project, StoreUrls } from '../types';
+import { DEFAULT_AD_SIZES, type ExportSettings } from '../utils/ExportManager';
+import { getNetworkAdapters } from '../utils/networks';
+
+interface StoreUrlSettingsProps {
+    project: Project;
+    onSave: (updates: ExportSettings) => Promise<void>;
+}
+
+const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '8px 12px',
+    borderRadius: 'var(--radius-sm)',
+    border: '1px solid var(--color-border)',
+    backgroundColor: 'var(--color-bg-primary)',
+    color: 'var(--color-text-primary)',
+    fontSize: '13px'
+};
+
+const labelStyle: React.CSSProperties = {
+    width: '120px',
+    flexShrink: 0,
+    fontSize: '13px',
+    color: 'var(--color-text-secondary)'
+};
+
+/**
+ * Drop empty fields so cleared inputs do not shadow the project URLs
+ */
+function compactUrls(urls: StoreUrls): StoreUrls | undefined {
+    const result: StoreUrls = {};
+    if (urls.ios?.trim()) result.ios = urls.ios.trim();
+    if (urls.android?.trim()) result.android = urls.android.trim();
+    return result.ios || result.android ? result : undefined;
+}
+
+/**
+ * Custom size only when both sides are set, the orientation's default otherwise
+ */
+function parseAdSize(width: string, height: string): AdSize | undefined {
+    const w = Number(width);
+    const h = Number(height);
+    return w > 0 && h > 0 ? { width: Math.round(w), height: Math.round(h) } : undefined;
+}
+
+export const StoreUrlSettings: React.FC<StoreUrlSettingsProps> = ({ project, onSave }) => {
+    const [storeUrls, setStoreUrls] = useState<StoreUrls>(project.storeUrls || {});
+    const [networkStoreUrls, setNetworkStoreUrls] = useState<Record<string, StoreUrls>>(project.networkStoreUrls || {});
+    const [showOverrides, setShowOverrides] = useState(Object.keys(project.networkStoreUrls || {}).length > 0);
+    const [adOrientation, setAdOrientation] = useState<AdOrientation>(project.adOrientation || 'both');
+    const [adWidth, setAdWidth] = useState(project.adSize ? String(project.adSize.width) : '');
+    const [adHeight, setAdHeight] = useState(project.adSize ? String(project.adSize.height) : '');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isDirty, setIsDirty] = useState(false);
+
+    const updateNetworkUrl = (network: string, platform: keyof StoreUrls, value: string) => {
+        setNetworkStoreUrls(prev => ({ ...prev, [network]: { ...prev[network], [platform]: value } }));
+        setIsDirty(true);
+    };
+
+    const handleSave = async () => {
+        const overrides: Record<string, StoreUrls> = {};
+        for (const [network, urls] of Object.entries(networkStoreUrls)) {
+            const compacted = compactUrls(urls);
+            if (compacted) overrides[network] = compacted;
+        }
+
+        setIsSaving(true);
+        try {
+            await onSave({
+                storeUrls: compactUrls(storeUrls),
+                networkStoreUrls: overrides,
+                adOrientation,
+                adSize: parseAdSize(adWidth, adHeight)
+            });
+            setIsDirty(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderUrlRow = (label: string, urls: StoreUrls, onChange: (platform: keyof StoreUrls, value: string) => void, placeholders?: StoreUrls) => (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <span style={labelStyle}>{label}</span>
+            <input
+                type="url"
+                placeholder={placeholders?.ios || 'https://apps.apple.com/app/id...'}
+                value={urls.ios || ''}
+                onChange={(e) => onChange('ios', e.target.value)}
+                style={inputStyle}
+            />
+            <input
+                type="url"
+                placeholder={placeholders?.android || 'https://play.google.com/store/apps/details?id=...'}
+                value={urls.android || ''}
+                onChange={(e) => onChange('android', e.target.value)}
+                style={inputStyle}
+            />
+        </div>
+    );
+
+    return (
+        <div style={{
+            backgroundColor: 'var(--color-bg-secondary)',
+            borderRadius: 'var(--radius-lg)',
+            border: '1px solid var(--color-border)',
+            padding: '24px',
+            marginBottom: '24px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '12px'
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <div>
+                    <h2 style={{ fontSize: '20px', fontWeight: 600 }}>Store Links & Ad Format</h2>
+                    <div style={{ fontSize: '13px', color: 'var(--color-text-secondary)', marginTop: '4px' }}>
+                        Opened by the CTA. The playable picks iOS or Android from the device it runs on.
+                        The ad format is declared to networks that ask for it (Google Ads, TikTok / Pangle).
+                    </div>
+                </div>
+                <button
+                    onClick={handleSave}
+                    disabled={!isDirty || isSaving}
+                    style={{
+                        padding: '8px 16px',
+                        backgroundColor: 'var(--color-accent)',
+                        border: 'none',
+                        color: 'white',
+                        borderRadius: 'var(--radius-sm)',
+                        cursor: isDirty ? 'pointer' : 'default',
+                        opacity: isDirty && !isSaving ? 1 : 0.5
+                    }}
+                >
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+
+            <div style={{ display: 'flex', gap: '12px', fontSize: '12px', color: 'var(--color-text-secondary)' }}>
+                <span style={{ ...labelStyle, fontSize: '12px' }} />
+                <span style={{ flex: 1 }}>iOS (App Store)</span>
+                <span style={{ flex: 1 }}>Android (Google Play)</span>
+            </div>
+            {renderUrlRow('All networks', storeUrls, (platform, value) => {
+                setStoreUrls(prev => ({ ...prev, [platform]: value }));
+                setIsDirty(true);
+            })}
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                <span style={labelStyle}>Ad format</span>
+                <select
+                    value={adOrientation}
+                    onChange={(e) => {
+                        setAdOrientation(e.target.value as AdOrientation);
+                        setIsDirty(true);
+                    }}
+                    style={inputStyle}
+                >
+                    <option value="both">Portrait and landscape</option>
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                </select>
+                <input
+                    type="number"
+                    min={1}
+                    placeholder={`Width (${DEFAULT_AD_SIZES[adOrientation].width})`}
+                    value={adWidth}
+                    onChange={(e) => {
+                        setAdWidth(e.target.value);
+                        setIsDirty(true);
+                    }}
+                    style={inputStyle}
+                />
+                <input
+                    type="number"
+                    min={1}
+                    placeholder={`Height (${DEFAULT_AD_SIZES[adOrientation].height})`}
+                    value={adHeight}
+                    onChange={(e) => {
+                        setAdHeight(e.target.value);
+                        setIsDirty(true);
+                    }}
+                    style={inputStyle}
+                />
+            </div>
+
+            <button
+                onClick={() => setShowOverrides(!showOverrides)}
+                style={{
+                    alignSelf: 'flex-start',
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    color: 'var(--color-text-secondary)',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    fontSize: '13px'
+                }}
+            >
+                {showOverrides ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                Per-network click-through overrides
+            </button>
+            {showOverrides && getNetworkAdapters().map(adapter => (
+                <React.Fragment key={adapter.id}>
+                    {renderUrlRow(
+                        adapter.label,
+                        networkStoreUrls[adapter.id] || {},
+                        (platform, value) => updateNetworkUrl(adapter.id, platform, value),
+                        { ios: storeUrls.ios || 'Project iOS URL', android: storeUrls.android || 'Project Android URL' }
+                    )}
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
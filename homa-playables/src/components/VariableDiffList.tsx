@@ -0,0 +1,70 @@
+import React from 'react';
+import { Plus, Minus, ArrowRight, AlertCircle } from 'lucide-react';
+import type { BuildMigrationReport, VariableRangeChange } from '../utils/BuildMigration';
+
+interface VariableDiffListProps {
+    report: Pick<BuildMigrationReport, 'added' | 'removed' | 'renamed' | 'typeChanges' | 'rangeChanges'>;
+}
+
+function formatRange(range: VariableRangeChange['from']): string {
+    if (range.options && range.options.length > 0) return range.options.join(', ');
+    if (range.min !== undefined && range.max !== undefined && range.min < range.max) return `${range.min} – ${range.max}`;
+    return 'none';
+}
+
+/**
+ * Variable-level differences between two builds
+ */
+export const VariableDiffList: React.FC<VariableDiffListProps> = ({ report }) => {
+    const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' };
+    const nameStyle: React.CSSProperties = { fontFamily: 'monospace' };
+    const mutedStyle: React.CSSProperties = { color: 'var(--color-text-secondary)' };
+
+    const hasChanges = report.added.length > 0 || report.removed.length > 0 || report.renamed.length > 0 ||
+        report.typeChanges.length > 0 || report.rangeChanges.length > 0;
+
+    if (!hasChanges) {
+        return <div style={{ fontSize: '13px', ...mutedStyle }}>Same variables in both builds</div>;
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {report.added.map(name => (
+                <div key={`added-${name}`} style={rowStyle}>
+                    <Plus size={14} color="#4ade80" />
+                    <span style={nameStyle}>{name}</span>
+                    <span style={mutedStyle}>added</span>
+                </div>
+            ))}
+            {report.removed.map(name => (
+                <div key={`removed-${name}`} style={rowStyle}>
+                    <Minus size={14} color="#ef4444" />
+                    <span style={nameStyle}>{name}</span>
+                    <span style={mutedStyle}>removed</span>
+                </div>
+            ))}
+            {report.renamed.map(r => (
+                <div key={`renamed-${r.from}`} style={rowStyle}>
+                    <ArrowRight size={14} color="var(--color-accent)" />
+                    <span style={nameStyle}>{r.from}</span>
+                    <span style={mutedStyle}>renamed to</span>
+                    <span style={nameStyle}>{r.to}</span>
+                </div>
+            ))}
+            {report.typeChanges.map(c => (
+                <div key={`type-${c.name}`} style={rowStyle}>
+                    <AlertCircle size={14} color="#f59e0b" />
+                    <span style={nameStyle}>{c.name}</span>
+                    <span style={mutedStyle}>type {c.from} → {c.to}</span>
+                </div>
+            ))}
+            {report.rangeChanges.map(c => (
+                <div key={`range-${c.name}`} style={rowStyle}>
+                    <AlertCircle size={14} color="#f59e0b" />
+                    <span style={nameStyle}>{c.name}</span>
+                    <span style={mutedStyle}>range {formatRange(c.from)} → {formatRange(c.to)}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
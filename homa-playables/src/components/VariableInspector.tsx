@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import type { Variable } from '../types';
-import { Upload, FileAudio, Image as ImageIcon, Video } from 'lucide-react';
+import { Upload, FileAudio, Image as ImageIcon, Video, Undo2, Redo2, History as HistoryIcon } from 'lucide-react';
+import { canUndo, canRedo, type EditHistory } from '../utils/EditHistory';
 
 interface VariableInspectorProps {
     variables: Variable[];
@@ -10,6 +11,10 @@ interface VariableInspectorProps {
     onResetAll?: () => void;
     onReload?: () => void;
     onAssetSelect?: (variableName: string, assetType: string) => void;
+    history?: EditHistory;
+    onUndo?: () => void;
+    onRedo?: () => void;
+    onHistoryJump?: (index: number) => void;
 }
 
 export const VariableInspector: React.FC<VariableInspectorProps> = ({
@@ -19,9 +24,14 @@ export const VariableInspector: React.FC<VariableInspectorProps> = ({
     onResetSection,
     onResetAll,
     onReload,
-    onAssetSelect
+    onAssetSelect,
+    history,
+    onUndo,
+    onRedo,
+    onHistoryJump
 }) => {
     const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({});
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
     // Group and sort variables
     const groupedVariables = useMemo(() => {
@@ -324,6 +334,17 @@ export const VariableInspector: React.FC<VariableInspectorProps> = ({
         );
     };
 
+    const historyButtonStyle: React.CSSProperties = {
+        background: 'none',
+        border: '1px solid var(--color-border)',
+        borderRadius: 'var(--radius-sm)',
+        cursor: 'pointer',
+        color: 'var(--color-text-secondary)',
+        padding: '4px 6px',
+        display: 'flex',
+        alignItems: 'center'
+    };
+
     return (
         <div style={{
             padding: '0',
@@ -336,6 +357,36 @@ export const VariableInspector: React.FC<VariableInspectorProps> = ({
             <div style={{ padding: '16px', borderBottom: '1px solid var(--color-border)', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                 <h3 style={{ fontSize: '16px', fontWeight: 600, margin: 0 }}>Settings</h3>
                 <div style={{ display: 'flex', gap: '8px' }}>
+                    {history && (
+                        <>
+                            <button
+                                onClick={onUndo}
+                                disabled={!canUndo(history)}
+                                title="Undo (Ctrl+Z)"
+                                style={{ ...historyButtonStyle, opacity: canUndo(history) ? 1 : 0.4 }}
+                            >
+                                <Undo2 size={14} />
+                            </button>
+                            <button
+                                onClick={onRedo}
+                                disabled={!canRedo(history)}
+                                title="Redo (Ctrl+Shift+Z)"
+                                style={{ ...historyButtonStyle, opacity: canRedo(history) ? 1 : 0.4 }}
+                            >
+                                <Redo2 size={14} />
+                            </button>
+                            <button
+                                onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                                title="History"
+                                style={{
+                                    ...historyButtonStyle,
+                                    color: isHistoryOpen ? 'var(--color-accent)' : historyButtonStyle.color
+                                }}
+                            >
+                                <HistoryIcon size={14} />
+                            </button>
+                        </>
+                    )}
                     {onReload && (
                         <button
                             onClick={onReload}
@@ -373,6 +424,34 @@ export const VariableInspector: React.FC<VariableInspectorProps> = ({
                 </div>
             </div>
 
+            {history && isHistoryOpen && (
+                <div style={{ maxHeight: '200px', overflowY: 'auto', borderBottom: '1px solid var(--color-border)', padding: '8px 0' }}>
+                    {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+                        <div
+                            key={index}
+                            onClick={() => onHistoryJump?.(index)}
+                            style={{
+                                padding: '4px 16px',
+                                fontSize: '12px',
+                                cursor: 'pointer',
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                gap: '8px',
+                                // Undone entries stay listed until a new change replaces them
+                                opacity: index > history.index ? 0.5 : 1,
+                                color: index === history.index ? 'var(--color-accent)' : 'var(--color-text-primary)',
+                                fontWeight: index === history.index ? 600 : 400
+                            }}
+                        >
+                            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{entry.label}</span>
+                            <span style={{ color: 'var(--color-text-secondary)', flexShrink: 0 }}>
+                                {new Date(entry.time).toLocaleTimeString()}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             <div style={{ flex: 1, overflowY: 'auto', padding: '16px' }}>
                 {variables.length === 0 ? (
                     <p style={{ color: 'var(--color-text-secondary)', fontSize: '14px' }}>
@@ -439,6 +518,11 @@ export const VariableInspector: React.FC<VariableInspectorProps> = ({
                                                     fontWeight: 500
                                                 }}>
                                                     {variable.name}
+                                                    {variable.requiresRestart && (
+                                                        <span title="Changing this restarts the preview" style={{ marginLeft: '6px', opacity: 0.7 }}>
+                                                            ⟳
+                                                        </span>
+                                                    )}
                                                 </label>
                                                 {renderInput(variable)}
                                             </div>
@@ -0,0 +1,417 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import type { Concept, Project } from '../types';
+import {
+    MAX_AXIS_VALUES,
+    createVariantConcepts,
+    defaultAxisSpec,
+    defaultNameTemplate,
+    generateVariants,
+    resolveAxisValues,
+    variantName,
+    type AxisSource,
+    type AxisSpec,
+    type ExclusionRule,
+    type ResolvedAxis
+} from '../utils/VariantGenerator';
+import { encodeVariableValue, formatVariableText } from '../utils/VariableCodec';
+
+interface VariantGeneratorDialogProps {
+    project: Project;
+    onClose: () => void;
+    onCreate: (concepts: Concept[]) => Promise<void>;
+}
+
+const SOURCE_LABELS: Record<AxisSource, string> = {
+    options: 'All options',
+    steps: 'Numeric steps',
+    list: 'List'
+};
+
+const PREVIEW_ROWS = 20;
+
+export const VariantGeneratorDialog: React.FC<VariantGeneratorDialogProps> = ({
+    project,
+    onClose,
+    onCreate
+}) => {
+    const variables = project.variables.filter(v => !String(v.type).startsWith('Asset:'));
+    const [axes, setAxes] = useState<AxisSpec[]>([]);
+    const [rules, setRules] = useState<ExclusionRule[]>([]);
+    const [nameTemplate, setNameTemplate] = useState<string | null>(null); // Null follows the axes
+    const [limit, setLimit] = useState(50);
+    const [baseConceptId, setBaseConceptId] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+
+    const resolved = axes.map(spec => {
+        const variable = variables.find(v => v.name === spec.variable)!;
+        return { spec, variable, ...resolveAxisValues(variable, spec) };
+    });
+    const validAxes: ResolvedAxis[] = resolved.filter(a => !a.error && a.values.length > 0);
+    const preview = generateVariants(validAxes, rules, limit);
+    const template = nameTemplate ?? defaultNameTemplate(validAxes);
+    const unusedVariables = variables.filter(v => !axes.some(a => a.variable === v.name));
+
+    const updateAxis = (index: number, changes: Partial<AxisSpec>) => {
+        setAxes(prev => prev.map((axis, i) => i === index ? { ...axis, ...changes } : axis));
+    };
+
+    const changeAxisVariable = (index: number, name: string) => {
+        const variable = variables.find(v => v.name === name);
+        if (!variable) return;
+        const previous = axes[index].variable;
+        setAxes(prev => prev.map((axis, i) => i === index ? defaultAxisSpec(variable) : axis));
+        // Conditions on the replaced axis no longer apply
+        setRules(prev => prev.map(rule => ({ conditions: rule.conditions.filter(c => c.variable !== previous) })));
+    };
+
+    const removeAxis = (index: number) => {
+        const removed = axes[index].variable;
+        setAxes(prev => prev.filter((_, i) => i !== index));
+        setRules(prev => prev.map(rule => ({ conditions: rule.conditions.filter(c => c.variable !== removed) })));
+    };
+
+    const addCondition = (ruleIndex: number) => {
+        const axis = validAxes[0];
+        if (!axis) return;
+        const condition = { variable: axis.variable.name, value: encodeVariableValue(axis.variable.type, axis.values[0]) };
+        setRules(prev => prev.map((rule, i) => i === ruleIndex ? { conditions: [...rule.conditions, condition] } : rule));
+    };
+
+    const updateCondition = (ruleIndex: number, conditionIndex: number, variableName: string, value?: string) => {
+        const axis = validAxes.find(a => a.variable.name === variableName);
+        if (!axis) return;
+        const condition = { variable: variableName, value: value ?? encodeVariableValue(axis.variable.type, axis.values[0]) };
+        setRules(prev => prev.map((rule, i) => i === ruleIndex
+            ? { conditions: rule.conditions.map((c, j) => j === conditionIndex ? condition : c) }
+            : rule
+        ));
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const base = (project.concepts || []).find(c => c.id === baseConceptId);
+            const concepts = createVariantConcepts(
+                project.id,
+                preview.combinations,
+                validAxes,
+                template,
+                (project.concepts || []).map(c => c.name),
+                base
+            );
+            await onCreate(concepts);
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const sectionTitleStyle: React.CSSProperties = { fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0' };
+    const mutedStyle: React.CSSProperties = { fontSize: '13px', color: 'var(--color-text-secondary)' };
+    const inputStyle: React.CSSProperties = {
+        padding: '6px 8px',
+        borderRadius: 'var(--radius-sm)',
+        border: '1px solid var(--color-border)',
+        backgroundColor: 'var(--color-bg-secondary)',
+        color: 'var(--color-text-primary)',
+        fontSize: '13px'
+    };
+    const linkButtonStyle: React.CSSProperties = {
+        background: 'none',
+        border: 'none',
+        color: 'var(--color-accent)',
+        cursor: 'pointer',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '13px',
+        padding: 0
+    };
+    const iconButtonStyle: React.CSSProperties = {
+        background: 'none',
+        border: 'none',
+        color: 'var(--color-text-secondary)',
+        cursor: 'pointer',
+        padding: '4px'
+    };
+    const cellStyle: React.CSSProperties = {
+        padding: '6px 8px',
+        borderBottom: '1px solid var(--color-border)',
+        fontSize: '12px',
+        textAlign: 'left',
+        whiteSpace: 'nowrap'
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0, left: 0, right: 0, bottom: 0,
+            backgroundColor: 'rgba(0,0,0,0.7)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
+        }}>
+            <div style={{
+                width: '760px',
+                maxHeight: '90vh',
+                backgroundColor: 'var(--color-bg-primary)',
+                borderRadius: 'var(--radius-lg)',
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+                boxShadow: '0 20px 50px rgba(0,0,0,0.3)'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderBottom: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center'
+                }}>
+                    <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>Generate Variants</h2>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-text-secondary)' }}
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', display: 'flex', flexDirection: 'column', gap: '24px', overflowY: 'auto' }}>
+                    {/* Axes */}
+                    <div>
+                        <h3 style={sectionTitleStyle}>Axes</h3>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                            {resolved.map(({ spec, variable, values, error }, index) => (
+                                <div key={spec.variable} style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                                        <select
+                                            value={spec.variable}
+                                            onChange={(e) => changeAxisVariable(index, e.target.value)}
+                                            style={inputStyle}
+                                        >
+                                            {[variable, ...unusedVariables].map(v => (
+                                                <option key={v.name} value={v.name}>{v.name} ({v.type})</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            value={spec.source}
+                                            onChange={(e) => updateAxis(index, { source: e.target.value as AxisSource })}
+                                            style={inputStyle}
+                                        >
+                                            {(Object.keys(SOURCE_LABELS) as AxisSource[]).map(source => (
+                                                <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+                                            ))}
+                                        </select>
+                                        {spec.source === 'steps' && (['from', 'to', 'step'] as const).map(field => (
+                                            <label key={field} style={{ ...mutedStyle, display: 'flex', alignItems: 'center', gap: '4px' }}>
+                                                {field}
+                                                <input
+                                                    type="number"
+                                                    value={spec[field] ?? ''}
+                                                    onChange={(e) => updateAxis(index, { [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                                    style={{ ...inputStyle, width: '72px' }}
+                                                />
+                                            </label>
+                                        ))}
+                                        <button onClick={() => removeAxis(index)} title="Remove axis" style={{ ...iconButtonStyle, marginLeft: 'auto' }}>
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                    {spec.source === 'list' && (
+                                        <textarea
+                                            value={spec.list ?? ''}
+                                            onChange={(e) => updateAxis(index, { list: e.target.value })}
+                                            placeholder="One value per line"
+                                            rows={3}
+                                            style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }}
+                                        />
+                                    )}
+                                    <div style={{ ...mutedStyle, color: error ? '#ef4444' : mutedStyle.color }}>
+                                        {error ?? `${values.length} value(s): ${values.map(v => formatVariableText(variable.type, v)).join(', ')}`}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setAxes(prev => [...prev, defaultAxisSpec(unusedVariables[0])])}
+                            disabled={unusedVariables.length === 0}
+                            style={{ ...linkButtonStyle, marginTop: '12px', opacity: unusedVariables.length === 0 ? 0.5 : 1 }}
+                        >
+                            <Plus size={14} /> Add axis
+                        </button>
+                        <div style={{ ...mutedStyle, marginTop: '4px' }}>Each axis takes up to {MAX_AXIS_VALUES} values.</div>
+                    </div>
+
+                    {/* Exclusions */}
+                    <div>
+                        <h3 style={sectionTitleStyle}>Exclusions</h3>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                            {rules.map((rule, ruleIndex) => (
+                                <div key={ruleIndex} style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', fontSize: '13px' }}>
+                                    <span style={mutedStyle}>Skip when</span>
+                                    {rule.conditions.map((condition, conditionIndex) => {
+                                        const axis = validAxes.find(a => a.variable.name === condition.variable);
+                                        return (
+                                            <React.Fragment key={conditionIndex}>
+                                                {conditionIndex > 0 && <span style={mutedStyle}>and</span>}
+                                                <select
+                                                    value={condition.variable}
+                                                    onChange={(e) => updateCondition(ruleIndex, conditionIndex, e.target.value)}
+                                                    style={inputStyle}
+                                                >
+                                                    {validAxes.map(a => <option key={a.variable.name} value={a.variable.name}>{a.variable.name}</option>)}
+                                                </select>
+                                                <span>=</span>
+                                                <select
+                                                    value={condition.value}
+                                                    onChange={(e) => updateCondition(ruleIndex, conditionIndex, condition.variable, e.target.value)}
+                                                    style={inputStyle}
+                                                >
+                                                    {axis?.values.map(v => {
+                                                        const encoded = encodeVariableValue(axis.variable.type, v);
+                                                        return <option key={encoded} value={encoded}>{formatVariableText(axis.variable.type, v)}</option>;
+                                                    })}
+                                                </select>
+                                            </React.Fragment>
+                                        );
+                                    })}
+                                    <button onClick={() => addCondition(ruleIndex)} style={linkButtonStyle}>
+                                        <Plus size={14} /> condition
+                                    </button>
+                                    <button
+                                        onClick={() => setRules(prev => prev.filter((_, i) => i !== ruleIndex))}
+                                        title="Remove rule"
+                                        style={{ ...iconButtonStyle, marginLeft: 'auto' }}
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => {
+                                const axis = validAxes[0];
+                                if (!axis) return;
+                                setRules(prev => [...prev, {
+                                    conditions: [{ variable: axis.variable.name, value: encodeVariableValue(axis.variable.type, axis.values[0]) }]
+                                }]);
+                            }}
+                            disabled={validAxes.length === 0}
+                            style={{ ...linkButtonStyle, marginTop: '8px', opacity: validAxes.length === 0 ? 0.5 : 1 }}
+                        >
+                            <Plus size={14} /> Add rule
+                        </button>
+                    </div>
+
+                    {/* Options */}
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 120px', gap: '12px' }}>
+                        <label style={{ ...mutedStyle, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                            Start from
+                            <select value={baseConceptId} onChange={(e) => setBaseConceptId(e.target.value)} style={inputStyle}>
+                                <option value="">Build defaults</option>
+                                {(project.concepts || []).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                        </label>
+                        <label style={{ ...mutedStyle, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                            Name ({'{n}'} and {'{Variable}'} are replaced)
+                            <input value={template} onChange={(e) => setNameTemplate(e.target.value)} style={inputStyle} />
+                        </label>
+                        <label style={{ ...mutedStyle, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                            Max concepts
+                            <input
+                                type="number"
+                                min={1}
+                                value={limit}
+                                onChange={(e) => setLimit(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                                style={inputStyle}
+                            />
+                        </label>
+                    </div>
+
+                    {/* Preview */}
+                    <div>
+                        <h3 style={sectionTitleStyle}>Preview</h3>
+                        <div style={{ ...mutedStyle, marginBottom: '8px' }}>
+                            {validAxes.length === 0
+                                ? 'Add an axis to see the combinations.'
+                                : `${validAxes.map(a => a.values.length).join(' × ')} = ${preview.total} combination(s)` +
+                                  (preview.excluded > 0 ? `, ${preview.excluded} excluded` : '') +
+                                  (preview.truncated ? `, capped at ${preview.combinations.length}` : '')}
+                        </div>
+                        {preview.combinations.length > 0 && (
+                            <div style={{ overflowX: 'auto' }}>
+                                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                                    <thead>
+                                        <tr style={{ color: 'var(--color-text-secondary)' }}>
+                                            <th style={{ ...cellStyle, fontWeight: 500 }}>Name</th>
+                                            {validAxes.map(a => <th key={a.variable.name} style={{ ...cellStyle, fontWeight: 500 }}>{a.variable.name}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {preview.combinations.slice(0, PREVIEW_ROWS).map((combination, index) => (
+                                            <tr key={index}>
+                                                <td style={cellStyle}>{variantName(template, combination, validAxes, index + 1)}</td>
+                                                {validAxes.map(a => (
+                                                    <td key={a.variable.name} style={cellStyle}>
+                                                        {formatVariableText(a.variable.type, combination[a.variable.name])}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                {preview.combinations.length > PREVIEW_ROWS && (
+                                    <div style={{ ...mutedStyle, marginTop: '8px' }}>
+                                        and {preview.combinations.length - PREVIEW_ROWS} more
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderTop: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'flex-end',
+                    gap: '8px'
+                }}>
+                    <button
+                        onClick={onClose}
+                        disabled={isCreating}
+                        style={{
+                            padding: '8px 16px',
+                            backgroundColor: 'transparent',
+                            border: '1px solid var(--color-border)',
+                            color: 'var(--color-text-primary)',
+                            borderRadius: 'var(--radius-sm)',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleCreate}
+                        disabled={isCreating || preview.combinations.length === 0}
+                        style={{
+                            padding: '8px 16px',
+                            backgroundColor: 'var(--color-accent)',
+                            border: 'none',
+                            color: 'white',
+                            borderRadius: 'var(--radius-sm)',
+                            cursor: isCreating || preview.combinations.length === 0 ? 'not-allowed' : 'pointer',
+                            opacity: isCreating || preview.combinations.length === 0 ? 0.5 : 1
+                        }}
+                    >
+                        {isCreating ? 'Creating...' : `Create ${preview.combinations.length} Concept(s)`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import type { WorkspaceRestoreMode } from '../db';
+import type { ConflictStrategy, WorkspaceConflicts, WorkspaceManifest } from '../utils/WorkspaceBackup';
+import { formatFileSize } from '../utils/AssetInliner';
+
+interface WorkspaceImportDialogProps {
+    fileName: string;
+    manifest: WorkspaceManifest;
+    conflicts: WorkspaceConflicts;
+    isImporting: boolean;
+    onClose: () => void;
+    onImport: (mode: WorkspaceRestoreMode, strategy: ConflictStrategy) => void;
+}
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+    duplicate: 'Keep both (imported copies get new ids)',
+    overwrite: 'Overwrite existing items',
+    skip: 'Keep existing items, skip imported ones'
+};
+
+export const WorkspaceImportDialog: React.FC<WorkspaceImportDialogProps> = ({
+    fileName,
+    manifest,
+    conflicts,
+    isImporting,
+    onClose,
+    onImport
+}) => {
+    const [mode, setMode] = useState<WorkspaceRestoreMode>('merge');
+    const [strategy, setStrategy] = useState<ConflictStrategy>('duplicate');
+
+    const conflictCount = conflicts.projects.length + conflicts.folders.length + conflicts.media.length;
+    const totalSize = manifest.blobs.reduce((sum, b) => sum + b.size, 0);
+    const mutedStyle: React.CSSProperties = { fontSize: '13px', color: 'var(--color-text-secondary)' };
+    const optionStyle: React.CSSProperties = { display: 'flex', alignItems: 'flex-start', gap: '8px', fontSize: '14px', cursor: 'pointer' };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0, left: 0, right: 0, bottom: 0,
+            backgroundColor: 'rgba(0,0,0,0.7)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
+        }}>
+            <div style={{
+                width: '560px',
+                maxHeight: '90vh',
+                backgroundColor: 'var(--color-bg-primary)',
+                borderRadius: 'var(--radius-lg)',
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+                boxShadow: '0 20px 50px rgba(0,0,0,0.3)'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderBottom: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center'
+                }}>
+                    <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>Import Workspace</h2>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-text-secondary)' }}
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', display: 'flex', flexDirection: 'column', gap: '20px', overflowY: 'auto' }}>
+                    <div>
+                        <div style={{ fontSize: '14px', marginBottom: '4px' }}>{fileName}</div>
+                        <div style={mutedStyle}>
+                            Created {new Date(manifest.createdAt).toLocaleString()} · {manifest.counts.projects} project(s),{' '}
+                            {manifest.counts.concepts} concept(s), {manifest.counts.builds} build(s), {manifest.counts.media} media file(s),{' '}
+                            {manifest.counts.folders} folder(s) · {formatFileSize(totalSize)}
+                        </div>
+                    </div>
+
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+                        <label style={optionStyle}>
+                            <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                            <div>
+                                Merge
+                                <div style={mutedStyle}>Add the backup to the current workspace</div>
+                            </div>
+                        </label>
+                        <label style={optionStyle}>
+                            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                            <div>
+                                Replace
+                                <div style={mutedStyle}>Delete every project and media file here, then restore the backup</div>
+                            </div>
+                        </label>
+                    </div>
+
+                    {mode === 'merge' && conflictCount > 0 && (
+                        <div>
+                            <h3 style={{ fontSize: '14px', fontWeight: 600, margin: '0 0 8px 0', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                <AlertCircle size={14} color="#f59e0b" />
+                                {conflictCount} item(s) already exist
+                            </h3>
+                            <div style={{ ...mutedStyle, marginBottom: '12px' }}>
+                                {[...conflicts.projects, ...conflicts.folders, ...conflicts.media].slice(0, 8).join(', ')}
+                                {conflictCount > 8 && `, and ${conflictCount - 8} more`}
+                            </div>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map(option => (
+                                    <label key={option} style={optionStyle}>
+                                        <input type="radio" checked={strategy === option} onChange={() => setStrategy(option)} />
+                                        {STRATEGY_LABELS[option]}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {mode === 'replace' && (
+                        <div style={{ display: 'flex', gap: '8px', fontSize: '13px', color: '#ef4444' }}>
+                            <AlertCircle size={14} style={{ flexShrink: 0, marginTop: '2px' }} />
+                            The current workspace is deleted. Export it first if you may need it again.
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div style={{
+                    padding: '16px 24px',
+                    borderTop: '1px solid var(--color-border)',
+                    display: 'flex',
+                    justifyContent: 'flex-end',
+                    gap: '8px'
+                }}>
+                    <button
+                        onClick={onClose}
+                        disabled={isImporting}
+                        style={{
+                            padding: '8px 16px',
+                            backgroundColor: 'transparent',
+                            border: '1px solid var(--color-border)',
+                            color: 'var(--color-text-primary)',
+                            borderRadius: 'var(--radius-sm)',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onImport(mode, strategy)}
+                        disabled={isImporting}
+                        style={{
+                            padding: '8px 16px',
+                            backgroundColor: mode === 'replace' ? '#ef4444' : 'var(--color-accent)',
+                            border: 'none',
+                            color: 'white',
+                            borderRadius: 'var(--radius-sm)',
+                            cursor: isImporting ? 'not-allowed' : 'pointer',
+                            opacity: isImporting ? 0.5 : 1
+                        }}
+                    >
+                        {isImporting ? 'Importing...' : mode === 'replace' ? 'Replace Workspace' : 'Import'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
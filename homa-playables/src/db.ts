@@ -1,5 +1,71 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
-import type { Project, MediaItem, MediaFolder } from './types';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPObjectStore, type StoreNames } from 'idb';
+import type {
+    Project,
+    Concept,
+    MediaItem,
+    MediaFolder,
+    BuildRevision,
+    BuildSnapshot,
+    ConceptRevision,
+    HomaBuildInfo,
+    PreviewBuild,
+    Variable,
+    StorageUsage,
+    ProjectStorageUsage,
+    MediaFolderUsage,
+    OrphanedPreview
+} from './types';
+import { planBuildRollback } from './utils/BuildMigration';
+import { hashBlob } from './utils/HashUtils';
+
+/**
+ * File contents are stored once in `blobs`, keyed by their SHA-256.
+ * Builds, preview files and media reference them by hash.
+ */
+interface StoredBlob {
+    hash: string;
+    blob: Blob;
+    size: number;
+}
+
+interface BlobRef {
+    hash: string;
+    type: string; // MIME type the file is served with
+}
+
+export type StoredMediaItem = Omit<MediaItem, 'blob'> & { blobHash: string };
+
+export interface ProjectFilesRecord {
+    projectId: string;
+    zipHash: string;
+    previous?: BuildSnapshot; // Build before the last re-upload
+}
+
+/**
+ * Every persistent record of the workspace; blobs are referenced by hash.
+ * Preview files are a cache and not part of it.
+ */
+export interface WorkspaceRecords {
+    projects: Project[];
+    projectFiles: ProjectFilesRecord[];
+    buildRevisions: BuildRevision[];
+    conceptRevisions: ConceptRevision[];
+    media: StoredMediaItem[];
+    folders: MediaFolder[];
+}
+
+/**
+ * A preview open in some tab; its overlay files take precedence over the files of the build it previews.
+ * See utils/PreviewSession.ts.
+ */
+interface PreviewSessionRecord {
+    id: string;
+    projectId: string;
+    zipHash?: string; // Extracted build the session previews, kept while the session lives
+    createdAt: number;
+}
+
+export type WorkspaceRestoreMode = 'merge' | 'replace';
 
 interface HomaDB extends DBSchema {
     projects: {
@@ -8,18 +74,24 @@ interface HomaDB extends DBSchema {
     };
     projectFiles: {
         key: string;
-        value: {
-            projectId: string;
-            zipBlob: Blob;
-        };
+        value: ProjectFilesRecord;
     };
     'preview-files': {
-        key: [string, string]; // [projectId, filePath]
-        value: Blob;
+        key: [string, string, string]; // [projectId, zipHash, filePath]
+        value: BlobRef;
+    };
+    'preview-overlay': {
+        key: [string, string]; // [sessionId, filePath]
+        value: BlobRef;
+    };
+    previewSessions: {
+        key: string;
+        value: PreviewSessionRecord;
+        indexes: { 'by-project': string };
     };
     media: {
         key: string;
-        value: MediaItem;
+        value: StoredMediaItem;
         indexes: { 'by-folder': string };
     };
     folders: {
@@ -27,17 +99,37 @@ interface HomaDB extends DBSchema {
         value: MediaFolder;
         indexes: { 'by-parent': string };
     };
+    buildRevisions: {
+        key: string;
+        value: BuildRevision;
+        indexes: { 'by-project': string };
+    };
+    conceptRevisions: {
+        key: string;
+        value: ConceptRevision;
+        indexes: { 'by-concept': string; 'by-project': string };
+    };
+    blobs: {
+        key: string;
+        value: StoredBlob;
+    };
+    previewBuilds: {
+        key: [string, string]; // [projectId, zipHash]
+        value: PreviewBuild;
+    };
 }
 
+type BlobStore = IDBPObjectStore<HomaDB, ArrayLike<StoreNames<HomaDB>>, 'blobs', 'readwrite'>;
+
 const DB_NAME = 'homa-playables-db';
-const DB_VERSION = 3;
+const DB_VERSION = 8;
 
 let dbPromise: Promise<IDBPDatabase<HomaDB>>;
 
 function getDB() {
     if (!dbPromise) {
         dbPromise = openDB<HomaDB>(DB_NAME, DB_VERSION, {
-            upgrade(db) {
+            upgrade(db, oldVersion, _newVersion, transaction) {
                 if (!db.objectStoreNames.contains('projects')) {
                     db.createObjectStore('projects', { keyPath: 'id' });
                 }
@@ -45,7 +137,14 @@ function getDB() {
                     db.createObjectStore('projectFiles', { keyPath: 'projectId' });
                 }
                 if (!db.objectStoreNames.contains('preview-files')) {
-                    db.createObjectStore('preview-files'); // Key is array [projectId, filePath]
+                    db.createObjectStore('preview-files'); // Key is array [projectId, zipHash, filePath]
+                }
+                if (!db.objectStoreNames.contains('preview-overlay')) {
+                    db.createObjectStore('preview-overlay'); // Key is array [sessionId, filePath]
+                }
+                if (!db.objectStoreNames.contains('previewSessions')) {
+                    const sessionStore = db.createObjectStore('previewSessions', { keyPath: 'id' });
+                    sessionStore.createIndex('by-project', 'projectId');
                 }
                 if (!db.objectStoreNames.contains('media')) {
                     const mediaStore = db.createObjectStore('media', { keyPath: 'id' });
@@ -55,24 +154,186 @@ function getDB() {
                     const folderStore = db.createObjectStore('folders', { keyPath: 'id' });
                     folderStore.createIndex('by-parent', 'parentId');
                 }
+                if (!db.objectStoreNames.contains('buildRevisions')) {
+                    const revisionStore = db.createObjectStore('buildRevisions', { keyPath: 'id' });
+                    revisionStore.createIndex('by-project', 'projectId');
+                }
+                if (!db.objectStoreNames.contains('conceptRevisions')) {
+                    const conceptRevisionStore = db.createObjectStore('conceptRevisions', { keyPath: 'id' });
+                    conceptRevisionStore.createIndex('by-concept', 'conceptId');
+                    conceptRevisionStore.createIndex('by-project', 'projectId');
+                }
+                if (!db.objectStoreNames.contains('blobs')) {
+                    db.createObjectStore('blobs', { keyPath: 'hash' });
+                }
+                // One extracted build per project before v8; they are a cache and get re-extracted
+                if (oldVersion > 0 && oldVersion < 8) {
+                    transaction.objectStore('preview-files').clear();
+                    if (db.objectStoreNames.contains('previewBuilds')) {
+                        db.deleteObjectStore('previewBuilds');
+                    }
+                }
+                if (!db.objectStoreNames.contains('previewBuilds')) {
+                    db.createObjectStore('previewBuilds', { keyPath: ['projectId', 'zipHash'] });
+                }
             },
+        }).then(async db => {
+            await migrateInlineBlobs(db);
+            await sweepBlobs(db); // Drops preview configs replaced during earlier sessions
+            return db;
         });
     }
     return dbPromise;
 }
 
-export async function saveProject(project: Project, zipBlob: Blob) {
+// Blob Store Functions
+
+async function putBlob(store: BlobStore, hash: string, blob: Blob) {
+    // Identical content is already stored
+    if (await store.getKey(hash)) return;
+    await store.put({ hash, blob, size: blob.size });
+}
+
+/**
+ * Builds and media saved before v5 hold their Blob inline; move them to the blob store
+ */
+async function migrateInlineBlobs(db: IDBPDatabase<HomaDB>) {
+    type LegacyFiles = ProjectFilesRecord & { zipBlob?: Blob };
+    type LegacyRevision = BuildRevision & { zipBlob?: Blob };
+    type LegacyMedia = StoredMediaItem & { blob?: Blob };
+
+    const [files, revisions, media] = await Promise.all([
+        db.getAll('projectFiles') as Promise<LegacyFiles[]>,
+        db.getAll('buildRevisions') as Promise<LegacyRevision[]>,
+        db.getAll('media') as Promise<LegacyMedia[]>,
+    ]);
+    const legacyFiles = files.filter(f => f.zipBlob);
+    const legacyRevisions = revisions.filter(r => r.zipBlob);
+    const legacyMedia = media.filter(m => m.blob);
+    if (legacyFiles.length + legacyRevisions.length + legacyMedia.length === 0) return;
+
+    // Hashing can't run inside a transaction, so hash everything first
+    const blobs = new Map<string, Blob>();
+    const updatedFiles: ProjectFilesRecord[] = [];
+    for (const { zipBlob, ...record } of legacyFiles) {
+        const zipHash = await hashBlob(zipBlob!);
+        blobs.set(zipHash, zipBlob!);
+        updatedFiles.push({ ...record, zipHash });
+    }
+    const updatedRevisions: BuildRevision[] = legacyRevisions.map(({ zipBlob, ...revision }) => {
+        blobs.set(revision.hash, zipBlob!);
+        return revision;
+    });
+    const updatedMedia: StoredMediaItem[] = [];
+    for (const { blob, ...item } of legacyMedia) {
+        const blobHash = await hashBlob(blob!);
+        blobs.set(blobHash, blob!);
+        updatedMedia.push({ ...item, blobHash });
+    }
+
+    const tx = db.transaction(['blobs', 'projectFiles', 'buildRevisions', 'media'], 'readwrite');
+    await Promise.all([
+        ...[...blobs].map(([hash, blob]) => putBlob(tx.objectStore('blobs'), hash, blob)),
+        ...updatedFiles.map(record => tx.objectStore('projectFiles').put(record)),
+        ...updatedRevisions.map(revision => tx.objectStore('buildRevisions').put(revision)),
+        ...updatedMedia.map(item => tx.objectStore('media').put(item)),
+        tx.done,
+    ]);
+    console.log(`[DB] Moved ${blobs.size} blob(s) to the blob store`);
+}
+
+/**
+ * Delete blobs nothing references anymore (mark and sweep in one transaction,
+ * so a file saved concurrently can't lose its blob)
+ */
+async function sweepBlobs(db: IDBPDatabase<HomaDB>): Promise<{ count: number; size: number }> {
+    const tx = db.transaction(['blobs', 'preview-files', 'preview-overlay', 'projectFiles', 'buildRevisions', 'media'], 'readwrite');
+    const [previewFiles, overlayFiles, files, revisions, media] = await Promise.all([
+        tx.objectStore('preview-files').getAll(),
+        tx.objectStore('preview-overlay').getAll(),
+        tx.objectStore('projectFiles').getAll(),
+        tx.objectStore('buildRevisions').getAll(),
+        tx.objectStore('media').getAll(),
+    ]);
+    const referenced = new Set([
+        ...previewFiles.map(f => f.hash),
+        ...overlayFiles.map(f => f.hash),
+        ...files.map(f => f.zipHash),
+        ...revisions.map(r => r.hash),
+        ...media.map(m => m.blobHash),
+    ]);
+
+    let count = 0;
+    let size = 0;
+    let cursor = await tx.objectStore('blobs').openCursor();
+    while (cursor) {
+        if (!referenced.has(cursor.key)) {
+            count++;
+            size += cursor.value.size;
+            await cursor.delete();
+        }
+        cursor = await cursor.continue();
+    }
+    await tx.done;
+    return { count, size };
+}
+
+export async function getBlob(hash: string): Promise<Blob | undefined> {
     const db = await getDB();
-    const tx = db.transaction(['projects', 'projectFiles'], 'readwrite');
+    const record = await db.get('blobs', hash);
+    return record?.blob;
+}
+
+/**
+ * Free the space of blobs that are no longer referenced
+ */
+export async function collectGarbage(): Promise<{ count: number; size: number }> {
+    const db = await getDB();
+    return sweepBlobs(db);
+}
+
+// Project Functions
+
+/**
+ * Revision record for a build, not yet saved (hashing can't run inside a transaction)
+ */
+function createRevision(
+    projectId: string,
+    zipHash: string,
+    size: number,
+    variables: Variable[],
+    buildInfo: HomaBuildInfo | undefined,
+    label: string
+): BuildRevision {
+    return {
+        id: crypto.randomUUID(),
+        projectId,
+        label,
+        createdAt: Date.now(),
+        hash: zipHash,
+        size,
+        buildInfo,
+        variables
+    };
+}
+
+export async function saveProject(project: Project, zipBlob: Blob, buildInfo?: HomaBuildInfo) {
+    const zipHash = await hashBlob(zipBlob);
+    const revision = createRevision(project.id, zipHash, zipBlob.size, project.variables, buildInfo, 'Build 1');
+    const db = await getDB();
+    const tx = db.transaction(['projects', 'projectFiles', 'buildRevisions', 'blobs'], 'readwrite');
 
     // Ensure concepts array exists
     if (!project.concepts) {
         project.concepts = [];
     }
+    project.currentRevisionId = revision.id;
 
     await Promise.all([
+        putBlob(tx.objectStore('blobs'), zipHash, zipBlob),
         tx.objectStore('projects').put(project),
-        tx.objectStore('projectFiles').put({ projectId: project.id, zipBlob }),
+        tx.objectStore('projectFiles').put({ projectId: project.id, zipHash }),
+        tx.objectStore('buildRevisions').put(revision),
         tx.done,
     ]);
 }
@@ -90,18 +351,33 @@ export async function getProject(id: string): Promise<Project | undefined> {
 export async function getProjectZip(id: string): Promise<Blob | undefined> {
     const db = await getDB();
     const record = await db.get('projectFiles', id);
-    return record?.zipBlob;
+    return record && getBlob(record.zipHash);
 }
 
 export async function deleteProject(id: string) {
     const db = await getDB();
-    const tx = db.transaction(['projects', 'projectFiles'], 'readwrite');
+    const tx = db.transaction([
+        'projects', 'projectFiles', 'buildRevisions', 'conceptRevisions',
+        'preview-files', 'previewBuilds', 'previewSessions', 'preview-overlay',
+    ], 'readwrite');
+    const revisionIds = await tx.objectStore('buildRevisions').index('by-project').getAllKeys(id);
+    const conceptRevisionIds = await tx.objectStore('conceptRevisions').index('by-project').getAllKeys(id);
+    const sessionIds = await tx.objectStore('previewSessions').index('by-project').getAllKeys(id);
 
     await Promise.all([
         tx.objectStore('projects').delete(id),
         tx.objectStore('projectFiles').delete(id),
+        ...revisionIds.map(revisionId => tx.objectStore('buildRevisions').delete(revisionId)),
+        ...conceptRevisionIds.map(revisionId => tx.objectStore('conceptRevisions').delete(revisionId)),
+        tx.objectStore('preview-files').delete(previewKeyRange(id)),
+        tx.objectStore('previewBuilds').delete(previewKeyRange(id)),
+        ...sessionIds.map(sessionId => Promise.all([
+            tx.objectStore('previewSessions').delete(sessionId),
+            tx.objectStore('preview-overlay').delete(previewKeyRange(sessionId)),
+        ])),
         tx.done,
     ]);
+    await sweepBlobs(db); // Frees the build, media and preview blobs only this project used
 }
 
 export async function updateProject(id: string, updates: Partial<Project>): Promise<Project> {
@@ -116,42 +392,601 @@ export async function updateProject(id: string, updates: Partial<Project>): Prom
     return updatedProject;
 }
 
-export async function savePreviewFile(projectId: string, filePath: string, file: Blob) {
+// Build Revision Functions
+
+/**
+ * Projects created before revisions existed get one for their current build
+ */
+async function ensureCurrentRevision(id: string): Promise<Project> {
+    const db = await getDB();
+    const [project, record] = await Promise.all([db.get('projects', id), db.get('projectFiles', id)]);
+    if (!project || !record) throw new Error('Project not found');
+    if (project.currentRevisionId) return project;
+
+    const stored = await db.get('blobs', record.zipHash);
+    const revision = createRevision(id, record.zipHash, stored?.size ?? 0, project.variables, undefined, 'Build 1');
+    const updatedProject = { ...project, currentRevisionId: revision.id };
+
+    const tx = db.transaction(['projects', 'buildRevisions'], 'readwrite');
+    await Promise.all([
+        tx.objectStore('projects').put(updatedProject),
+        tx.objectStore('buildRevisions').put(revision),
+        tx.done,
+    ]);
+    return updatedProject;
+}
+
+/**
+ * Every build of a project, newest first
+ */
+export async function getBuildRevisions(projectId: string): Promise<BuildRevision[]> {
+    await ensureCurrentRevision(projectId);
+    const db = await getDB();
+    const revisions = await db.getAllFromIndex('buildRevisions', 'by-project', projectId);
+    return revisions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getBuildRevision(id: string): Promise<BuildRevision | undefined> {
+    const db = await getDB();
+    return db.get('buildRevisions', id);
+}
+
+export async function renameBuildRevision(id: string, label: string) {
+    const db = await getDB();
+    const revision = await db.get('buildRevisions', id);
+    if (!revision) throw new Error('Build revision not found');
+    await db.put('buildRevisions', { ...revision, label });
+}
+
+/**
+ * Hash of the ZIP a concept previews and exports with: its pinned revision, else the current build
+ */
+export async function getConceptBuildHash(projectId: string, concept: Concept): Promise<string | undefined> {
+    if (concept.buildRevisionId) {
+        const revision = await getBuildRevision(concept.buildRevisionId);
+        if (revision) return revision.hash;
+        console.warn(`[DB] Pinned build ${concept.buildRevisionId} not found, using the current build`);
+    }
+    const db = await getDB();
+    const record = await db.get('projectFiles', projectId);
+    return record?.zipHash;
+}
+
+export async function getConceptBuildZip(projectId: string, concept: Concept): Promise<Blob | undefined> {
+    const hash = await getConceptBuildHash(projectId, concept);
+    return hash ? getBlob(hash) : undefined;
+}
+
+/**
+ * Swap in a new build as a new revision (an identical upload reuses its revision).
+ * The previous revision and concept values are kept for rollback.
+ */
+export async function replaceProjectBuild(
+    id: string,
+    zipBlob: Blob,
+    updates: Partial<Project>,
+    buildInfo?: HomaBuildInfo
+): Promise<Project> {
+    const project = await ensureCurrentRevision(id);
+    const zipHash = await hashBlob(zipBlob);
+    const db = await getDB();
+    const existing = await db.getAllFromIndex('buildRevisions', 'by-project', id);
+    const revision = existing.find(r => r.hash === zipHash) ??
+        createRevision(id, zipHash, zipBlob.size, updates.variables ?? project.variables, buildInfo, `Build ${existing.length + 1}`);
+
+    const updatedProject = { ...project, ...updates, currentRevisionId: revision.id };
+    const previous: BuildSnapshot = {
+        revisionId: project.currentRevisionId!,
+        concepts: project.concepts,
+        migrated: Object.fromEntries(updatedProject.concepts.map(c => [c.id, c.values])),
+        replacedAt: Date.now()
+    };
+
+    const tx = db.transaction(['projects', 'projectFiles', 'buildRevisions', 'blobs'], 'readwrite');
+    await Promise.all([
+        putBlob(tx.objectStore('blobs'), zipHash, zipBlob),
+        tx.objectStore('projects').put(updatedProject),
+        tx.objectStore('projectFiles').put({ projectId: id, zipHash, previous }),
+        tx.objectStore('buildRevisions').put(revision),
+        tx.done,
+    ]);
+    await addConceptRevisions(id, project.concepts, updatedProject.concepts, `Migrated to ${revision.label}`);
+    return updatedProject;
+}
+
+export async function getPreviousBuild(id: string): Promise<BuildSnapshot | undefined> {
+    const db = await getDB();
+    const record = await db.get('projectFiles', id);
+    // Snapshots from before revisions existed carry no revision to restore
+    return record?.previous?.revisionId ? record.previous : undefined;
+}
+
+/**
+ * Restore the build and variables from before the last re-upload, and undo
+ * the concept value changes of its migration (see planBuildRollback)
+ */
+export async function rollbackProjectBuild(id: string): Promise<Project> {
+    const previous = await getPreviousBuild(id);
+    const revision = previous && await getBuildRevision(previous.revisionId);
+    if (!previous || !revision) throw new Error('No previous build to roll back to');
+
+    const db = await getDB();
+    const tx = db.transaction(['projects', 'projectFiles'], 'readwrite');
+    const project = await tx.objectStore('projects').get(id);
+    if (!project) throw new Error('Project not found');
+
+    const updatedProject = {
+        ...project,
+        variables: revision.variables,
+        concepts: planBuildRollback(project.concepts, previous).concepts,
+        currentRevisionId: revision.id,
+        lastModified: Date.now()
+    };
+
+    await Promise.all([
+        tx.objectStore('projects').put(updatedProject),
+        tx.objectStore('projectFiles').put({ projectId: id, zipHash: revision.hash }),
+        tx.done,
+    ]);
+    await addConceptRevisions(id, project.concepts, updatedProject.concepts, `Rolled back to ${revision.label}`);
+    return updatedProject;
+}
+
+/**
+ * Delete builds nothing needs anymore. The current build, builds pinned
+ * by a concept and the rollback target are kept.
+ */
+export async function deleteBuildRevisions(projectId: string, revisionIds: string[]) {
+    const db = await getDB();
+    const tx = db.transaction(['projects', 'projectFiles', 'buildRevisions'], 'readwrite');
+    const [project, record] = await Promise.all([
+        tx.objectStore('projects').get(projectId),
+        tx.objectStore('projectFiles').get(projectId),
+    ]);
+    if (!project) throw new Error('Project not found');
+
+    const kept = new Set([
+        project.currentRevisionId,
+        record?.previous?.revisionId,
+        ...project.concepts.map(c => c.buildRevisionId),
+    ]);
+    const protectedId = revisionIds.find(id => kept.has(id));
+    if (protectedId) throw new Error(`Build ${protectedId} is still in use`);
+
+    await Promise.all([
+        ...revisionIds.map(id => tx.objectStore('buildRevisions').delete(id)),
+        tx.done,
+    ]);
+    await sweepBlobs(db);
+}
+
+// Concept Revision Functions
+
+export async function addConceptRevision(revision: ConceptRevision) {
+    const db = await getDB();
+    await db.put('conceptRevisions', revision);
+}
+
+/**
+ * Record a change to many concepts at once (import, migration, ...) as one revision
+ * per concept whose values changed, new concepts included
+ */
+export async function addConceptRevisions(projectId: string, previous: Concept[], updated: Concept[], message: string) {
+    const before = new Map(previous.map(c => [c.id, c]));
+    const changed = updated.filter(c => {
+        const old = before.get(c.id);
+        return !old || JSON.stringify(old.values) !== JSON.stringify(c.values);
+    });
+    if (changed.length === 0) return;
+
     const db = await getDB();
-    await db.put('preview-files', file, [projectId, filePath]);
+    const tx = db.transaction('conceptRevisions', 'readwrite');
+    const now = Date.now();
+    const revisions: ConceptRevision[] = [];
+    for (const concept of changed) {
+        const old = before.get(concept.id);
+        // Keep the state from before the change of a concept that has no history yet, like a first save does
+        if (old && await tx.store.index('by-concept').count(concept.id) === 0) {
+            revisions.push({
+                id: crypto.randomUUID(),
+                projectId,
+                conceptId: concept.id,
+                createdAt: old.updatedAt,
+                message: 'Before revision history',
+                values: old.values
+            });
+        }
+        revisions.push({ id: crypto.randomUUID(), projectId, conceptId: concept.id, createdAt: now, message, values: concept.values });
+    }
+    await Promise.all([...revisions.map(r => tx.store.put(r)), tx.done]);
 }
 
+/**
+ * Saved states of a concept, newest first
+ */
+export async function getConceptRevisions(conceptId: string): Promise<ConceptRevision[]> {
+    const db = await getDB();
+    const revisions = await db.getAllFromIndex('conceptRevisions', 'by-concept', conceptId);
+    return revisions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteConceptRevisions(conceptId: string) {
+    const db = await getDB();
+    const tx = db.transaction('conceptRevisions', 'readwrite');
+    const ids = await tx.store.index('by-concept').getAllKeys(conceptId);
+    await Promise.all([...ids.map(id => tx.store.delete(id)), tx.done]);
+}
+
+// Preview Functions
+
+/**
+ * A build of the project extracted into preview files, if it is
+ */
+export async function getPreviewBuild(projectId: string, zipHash: string): Promise<PreviewBuild | undefined> {
+    const db = await getDB();
+    return db.get('previewBuilds', [projectId, zipHash]);
+}
+
+/**
+ * Extract a build into preview files next to the project's other extracted builds.
+ * Builds no preview session uses anymore are dropped; files they share keep their stored blob.
+ */
+export async function savePreviewBuild(build: PreviewBuild, files: Record<string, Blob>) {
+    const hashed = await Promise.all(
+        Object.entries(files).map(async ([path, file]) => ({ path, file, hash: await hashBlob(file) }))
+    );
+
+    const db = await getDB();
+    const tx = db.transaction(['preview-files', 'previewBuilds', 'previewSessions', 'blobs'], 'readwrite');
+    const sessions = await tx.objectStore('previewSessions').index('by-project').getAll(build.projectId);
+    const inUse = new Set([build.zipHash, ...sessions.map(s => s.zipHash)]);
+    const extracted = await tx.objectStore('previewBuilds').getAllKeys(previewKeyRange(build.projectId));
+    await Promise.all([
+        ...extracted.filter(([, zipHash]) => !inUse.has(zipHash)).map(([projectId, zipHash]) => Promise.all([
+            tx.objectStore('preview-files').delete(previewKeyRange(projectId, zipHash)),
+            tx.objectStore('previewBuilds').delete([projectId, zipHash]),
+        ])),
+        ...hashed.map(({ path, file, hash }) => Promise.all([
+            putBlob(tx.objectStore('blobs'), hash, file),
+            tx.objectStore('preview-files').put({ hash, type: file.type }, [build.projectId, build.zipHash, path]),
+        ])),
+        tx.objectStore('previewBuilds').put(build),
+        tx.done,
+    ]);
+    await sweepBlobs(db);
+}
+
+/**
+ * Every key starting with the given ids: [...ids, path] sorts between [...ids] and [...ids, []]
+ */
+function previewKeyRange(...ids: string[]): IDBKeyRange {
+    return IDBKeyRange.bound(ids, [...ids, []]);
+}
+
+/**
+ * Drop the project's extracted previews, except builds a live preview session still shows
+ */
 export async function clearPreviewFiles(projectId: string) {
     const db = await getDB();
-    const tx = db.transaction('preview-files', 'readwrite');
-    const store = tx.objectStore('preview-files');
+    const tx = db.transaction(['preview-files', 'previewBuilds', 'previewSessions'], 'readwrite');
+    const sessions = await tx.objectStore('previewSessions').index('by-project').getAll(projectId);
+    const inUse = new Set(sessions.map(s => s.zipHash));
+    const extracted = await tx.objectStore('previewBuilds').getAllKeys(previewKeyRange(projectId));
+    await Promise.all(sessions.length === 0
+        ? [
+            tx.objectStore('preview-files').delete(previewKeyRange(projectId)),
+            tx.objectStore('previewBuilds').delete(previewKeyRange(projectId)),
+            tx.done,
+        ]
+        : [
+            ...extracted.filter(([, zipHash]) => !inUse.has(zipHash)).map(([, zipHash]) => Promise.all([
+                tx.objectStore('preview-files').delete(previewKeyRange(projectId, zipHash)),
+                tx.objectStore('previewBuilds').delete([projectId, zipHash]),
+            ])),
+            tx.done,
+        ]);
+}
 
-    // Iterate and delete (inefficient but works for prototype)
-    let cursor = await store.openCursor();
+/**
+ * Drop every extracted preview no live preview session shows; projects re-extract theirs when opened
+ */
+export async function purgePreviewCaches() {
+    const db = await getDB();
+    const tx = db.transaction(['preview-files', 'previewBuilds', 'previewSessions'], 'readwrite');
+    const sessions = await tx.objectStore('previewSessions').getAll();
+    const inUse = new Set(sessions.map(s => `${s.projectId}/${s.zipHash}`));
+    const extracted = await tx.objectStore('previewBuilds').getAllKeys();
+    await Promise.all(sessions.length === 0
+        ? [
+            tx.objectStore('preview-files').clear(),
+            tx.objectStore('previewBuilds').clear(),
+            tx.done,
+        ]
+        : [
+            ...extracted.filter(([projectId, zipHash]) => !inUse.has(`${projectId}/${zipHash}`)).map(([projectId, zipHash]) => Promise.all([
+                tx.objectStore('preview-files').delete(previewKeyRange(projectId, zipHash)),
+                tx.objectStore('previewBuilds').delete([projectId, zipHash]),
+            ])),
+            tx.done,
+        ]);
+    await sweepBlobs(db);
+}
+
+/**
+ * Delete preview files left behind by projects that no longer exist
+ */
+export async function deleteOrphanedPreviews(): Promise<number> {
+    const { orphanedPreviews } = await getStorageUsage();
+    for (const orphan of orphanedPreviews) {
+        await clearPreviewFiles(orphan.projectId);
+    }
+    const db = await getDB();
+    await sweepBlobs(db);
+    return orphanedPreviews.reduce((sum, orphan) => sum + orphan.files, 0);
+}
+
+// Preview Session Functions
+
+export async function addPreviewSession(session: PreviewSessionRecord) {
+    const db = await getDB();
+    await db.put('previewSessions', session);
+}
+
+/**
+ * Point a session at the extracted build it previews, which keeps that build from being dropped
+ */
+export async function setSessionBuild(sessionId: string, zipHash: string) {
+    const db = await getDB();
+    const tx = db.transaction('previewSessions', 'readwrite');
+    const session = await tx.store.get(sessionId);
+    if (session) {
+        await tx.store.put({ ...session, zipHash });
+    }
+    await tx.done;
+}
+
+export async function getPreviewSessionIds(): Promise<string[]> {
+    const db = await getDB();
+    return db.getAllKeys('previewSessions');
+}
+
+export async function saveSessionFile(sessionId: string, filePath: string, file: Blob) {
+    const hash = await hashBlob(file);
+    const db = await getDB();
+    const tx = db.transaction(['preview-overlay', 'blobs'], 'readwrite');
+    await Promise.all([
+        putBlob(tx.objectStore('blobs'), hash, file),
+        tx.objectStore('preview-overlay').put({ hash, type: file.type }, [sessionId, filePath]),
+        tx.done,
+    ]);
+}
+
+export async function getSessionFile(sessionId: string, filePath: string): Promise<Blob | undefined> {
+    const db = await getDB();
+    const ref = await db.get('preview-overlay', [sessionId, filePath]);
+    return ref && getBlob(ref.hash);
+}
+
+/**
+ * Drop sessions with their overlay files
+ */
+export async function deletePreviewSessions(sessionIds: string[]) {
+    const db = await getDB();
+    const tx = db.transaction(['previewSessions', 'preview-overlay'], 'readwrite');
+    await Promise.all([
+        ...sessionIds.map(sessionId => Promise.all([
+            tx.objectStore('previewSessions').delete(sessionId),
+            tx.objectStore('preview-overlay').delete(previewKeyRange(sessionId)),
+        ])),
+        tx.done,
+    ]);
+    await sweepBlobs(db);
+}
+
+// Storage Functions
+
+/**
+ * Space used by each project, build, preview cache and media folder
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const db = await getDB();
+    const tx = db.transaction(['projects', 'projectFiles', 'buildRevisions', 'preview-files', 'media', 'folders', 'blobs']);
+    const [projects, files, revisions, previewKeys, previewRefs, media, folders] = await Promise.all([
+        tx.objectStore('projects').getAll(),
+        tx.objectStore('projectFiles').getAll(),
+        tx.objectStore('buildRevisions').getAll(),
+        tx.objectStore('preview-files').getAllKeys(),
+        tx.objectStore('preview-files').getAll(), // Same key order as getAllKeys
+        tx.objectStore('media').getAll(),
+        tx.objectStore('folders').getAll(),
+    ]);
+
+    const blobSizes = new Map<string, number>();
+    let cursor = await tx.objectStore('blobs').openCursor();
     while (cursor) {
-        if (cursor.key[0] === projectId) {
-            await cursor.delete();
-        }
+        blobSizes.set(cursor.key, cursor.value.size);
         cursor = await cursor.continue();
     }
     await tx.done;
+
+    // Content referenced twice within one group is only stored once
+    const sizeOf = (hashes: string[]) => [...new Set(hashes)].reduce((sum, hash) => sum + (blobSizes.get(hash) ?? 0), 0);
+
+    const previewHashes = new Map<string, string[]>();
+    previewKeys.forEach(([projectId], index) => {
+        previewHashes.set(projectId, [...(previewHashes.get(projectId) ?? []), previewRefs[index].hash]);
+    });
+
+    const projectUsage: ProjectStorageUsage[] = projects.map(project => {
+        const rollbackId = files.find(f => f.projectId === project.id)?.previous?.revisionId;
+        const hashes = previewHashes.get(project.id) ?? [];
+        return {
+            projectId: project.id,
+            name: project.name,
+            builds: revisions
+                .filter(r => r.projectId === project.id)
+                .sort((a, b) => b.createdAt - a.createdAt)
+                .map(r => ({
+                    revisionId: r.id,
+                    label: r.label,
+                    createdAt: r.createdAt,
+                    size: blobSizes.get(r.hash) ?? 0,
+                    isCurrent: r.id === project.currentRevisionId,
+                    isPinned: project.concepts.some(c => c.buildRevisionId === r.id),
+                    isRollback: r.id === rollbackId
+                })),
+            previewFiles: hashes.length,
+            previewSize: sizeOf(hashes)
+        };
+    });
+
+    const projectIds = new Set(projects.map(p => p.id));
+    const orphanedPreviews: OrphanedPreview[] = [...previewHashes]
+        .filter(([projectId]) => !projectIds.has(projectId))
+        .map(([projectId, hashes]) => ({ projectId, files: hashes.length, size: sizeOf(hashes) }));
+
+    const folderNames = new Map<string | null, string>(folders.map(f => [f.id, f.name]));
+    const mediaFolders: MediaFolderUsage[] = [...new Set(media.map(m => m.folderId))].map(folderId => {
+        const items = media.filter(m => m.folderId === folderId);
+        return {
+            folderId,
+            name: folderNames.get(folderId) ?? (folderId ? 'Deleted folder' : 'No folder'),
+            count: items.length,
+            size: sizeOf(items.map(m => m.blobHash))
+        };
+    });
+
+    return {
+        projects: projectUsage,
+        mediaFolders,
+        orphanedPreviews,
+        blobCount: blobSizes.size,
+        blobSize: [...blobSizes.values()].reduce((sum, size) => sum + size, 0)
+    };
+}
+
+// Workspace Functions
+
+export async function getWorkspaceRecords(): Promise<WorkspaceRecords> {
+    const db = await getDB();
+    const tx = db.transaction(['projects', 'projectFiles', 'buildRevisions', 'conceptRevisions', 'media', 'folders']);
+    const [projects, projectFiles, buildRevisions, conceptRevisions, media, folders] = await Promise.all([
+        tx.objectStore('projects').getAll(),
+        tx.objectStore('projectFiles').getAll(),
+        tx.objectStore('buildRevisions').getAll(),
+        tx.objectStore('conceptRevisions').getAll(),
+        tx.objectStore('media').getAll(),
+        tx.objectStore('folders').getAll(),
+    ]);
+    await tx.done;
+    return { projects, projectFiles, buildRevisions, conceptRevisions, media, folders };
+}
+
+/**
+ * Write restored records and their blobs in one transaction.
+ * Replace wipes the workspace first, preview sessions included; merge overwrites records with the same id,
+ * and the builds and concept revisions of every restored project are replaced by the restored ones.
+ */
+export async function restoreWorkspace(records: WorkspaceRecords, blobs: Map<string, Blob>, mode: WorkspaceRestoreMode) {
+    const db = await getDB();
+    const tx = db.transaction(
+        [
+            'projects', 'projectFiles', 'buildRevisions', 'conceptRevisions', 'media', 'folders',
+            'preview-files', 'previewBuilds', 'previewSessions', 'preview-overlay', 'blobs',
+        ],
+        'readwrite'
+    );
+
+    if (mode === 'replace') {
+        await Promise.all([
+            tx.objectStore('projects').clear(),
+            tx.objectStore('projectFiles').clear(),
+            tx.objectStore('buildRevisions').clear(),
+            tx.objectStore('conceptRevisions').clear(),
+            tx.objectStore('media').clear(),
+            tx.objectStore('folders').clear(),
+            tx.objectStore('preview-files').clear(),
+            tx.objectStore('previewBuilds').clear(),
+            tx.objectStore('previewSessions').clear(),
+            tx.objectStore('preview-overlay').clear(),
+        ]);
+    } else {
+        for (const project of records.projects) {
+            const revisionIds = await tx.objectStore('buildRevisions').index('by-project').getAllKeys(project.id);
+            const conceptRevisionIds = await tx.objectStore('conceptRevisions').index('by-project').getAllKeys(project.id);
+            await Promise.all([
+                ...revisionIds.map(id => tx.objectStore('buildRevisions').delete(id)),
+                ...conceptRevisionIds.map(id => tx.objectStore('conceptRevisions').delete(id)),
+                tx.objectStore('preview-files').delete(previewKeyRange(project.id)),
+                tx.objectStore('previewBuilds').delete(previewKeyRange(project.id)),
+            ]);
+        }
+    }
+
+    await Promise.all([
+        ...[...blobs].map(([hash, blob]) => putBlob(tx.objectStore('blobs'), hash, blob)),
+        ...records.projects.map(project => tx.objectStore('projects').put(project)),
+        ...records.projectFiles.map(record => tx.objectStore('projectFiles').put(record)),
+        ...records.buildRevisions.map(revision => tx.objectStore('buildRevisions').put(revision)),
+        ...records.conceptRevisions.map(revision => tx.objectStore('conceptRevisions').put(revision)),
+        ...records.media.map(item => tx.objectStore('media').put(item)),
+        ...records.folders.map(folder => tx.objectStore('folders').put(folder)),
+        tx.done,
+    ]);
+    await sweepBlobs(db);
 }
 
 // Media Library Functions
 
 export async function saveMedia(media: MediaItem) {
+    const { blob, ...item } = media;
+    const blobHash = await hashBlob(blob);
     const db = await getDB();
-    await db.put('media', media);
+    const tx = db.transaction(['media', 'blobs'], 'readwrite');
+    await Promise.all([
+        putBlob(tx.objectStore('blobs'), blobHash, blob),
+        tx.objectStore('media').put({ ...item, blobHash }),
+        tx.done,
+    ]);
 }
 
 export async function getMediaInFolder(folderId: string | null): Promise<MediaItem[]> {
     const db = await getDB();
-    return db.getAllFromIndex('media', 'by-folder', folderId);
+    const tx = db.transaction(['media', 'blobs']);
+    const stored = await tx.objectStore('media').index('by-folder').getAll(folderId);
+    const blobs = await Promise.all(stored.map(item => tx.objectStore('blobs').get(item.blobHash)));
+
+    return stored.flatMap(({ blobHash, ...item }, index) => {
+        const blob = blobs[index]?.blob;
+        if (!blob) {
+            console.warn(`[DB] Blob ${blobHash} of media ${item.name} is missing`);
+            return [];
+        }
+        return [{ ...item, blob }];
+    });
+}
+
+export async function findMediaByName(name: string): Promise<MediaItem | undefined> {
+    const db = await getDB();
+    const stored = (await db.getAll('media')).find(m => m.name === name);
+    if (!stored) return undefined;
+    const { blobHash, ...item } = stored;
+    const blob = await getBlob(blobHash);
+    return blob && { ...item, blob };
+}
+
+/**
+ * Every media item without its file, to match names and content hashes cheaply
+ */
+export async function getAllMediaRecords(): Promise<StoredMediaItem[]> {
+    const db = await getDB();
+    return db.getAll('media');
 }
 
 export async function deleteMedia(id: string) {
     const db = await getDB();
     await db.delete('media', id);
+    await sweepBlobs(db);
 }
 
 export async function saveFolder(folder: MediaFolder) {
@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { PlayablePreview, type PreviewDevice } from '../components/PlayablePreview';
+import { getProject } from '../db';
+import type { Project, PreviewBuild, Variable } from '../types';
+import { loadConceptPreview, previewUrl, saveSessionConfig, stageSessionAssets } from '../utils/PreviewLoader';
+import { openPreviewSession, closePreviewSession } from '../utils/PreviewSession';
+import { encodeVariableValue, formatVariableText, mergeConceptValues } from '../utils/VariableCodec';
+
+const MAX_COMPARED = 4;
+
+/**
+ * Concepts of a project running side by side on one device, with their values
+ */
+export const Compare: React.FC = () => {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [project, setProject] = useState<Project | null>(null);
+    const [builds, setBuilds] = useState<Record<string, PreviewBuild>>({}); // Concept id -> build it runs
+    const [readyKey, setReadyKey] = useState<string | null>(null); // Concepts whose configs are written
+    const [sessions, setSessions] = useState<Record<string, string>>({}); // Concept id -> preview session
+    const sessionsRef = useRef(new Map<string, string>());
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [device, setDevice] = useState<PreviewDevice>();
+    const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+    const conceptsParam = searchParams.get('concepts') ?? '';
+    const compared = (project?.concepts || [])
+        .filter(c => conceptsParam.split(',').includes(c.id))
+        .slice(0, MAX_COMPARED);
+
+    useEffect(() => {
+        const loadProject = async () => {
+            if (!id) return;
+            try {
+                const proj = await getProject(id);
+                if (!proj) {
+                    setError('Project not found');
+                    return;
+                }
+                setProject(proj);
+            } catch (err) {
+                console.error(err);
+                setError('Failed to load project');
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadProject();
+    }, [id]);
+
+    useEffect(() => {
+        const opened = sessionsRef.current;
+        return () => {
+            opened.forEach(sessionId => closePreviewSession(sessionId));
+            opened.clear();
+        };
+    }, []);
+
+    // Every compared concept gets its own preview session over the files of its own build
+    useEffect(() => {
+        let ignore = false; // Set once the concepts change or the page closes mid-way
+        const prepare = async () => {
+            if (!id || !project) return;
+            const concepts = (project.concepts || [])
+                .filter(c => conceptsParam.split(',').includes(c.id))
+                .slice(0, MAX_COMPARED);
+
+            for (const [conceptId, sessionId] of sessionsRef.current) {
+                if (concepts.some(c => c.id === conceptId)) continue;
+                sessionsRef.current.delete(conceptId);
+                closePreviewSession(sessionId);
+            }
+            if (concepts.length === 0) return;
+
+            try {
+                const conceptBuilds: Record<string, PreviewBuild> = {};
+                for (const concept of concepts) {
+                    let sessionId = sessionsRef.current.get(concept.id);
+                    if (!sessionId) {
+                        sessionId = await openPreviewSession(id);
+                        if (ignore) {
+                            // The unmount cleanup may already have run, nothing else would close it
+                            closePreviewSession(sessionId);
+                            return;
+                        }
+                        sessionsRef.current.set(concept.id, sessionId);
+                    }
+                    // Pinned concepts run their own build revision
+                    const build = await loadConceptPreview(sessionId, id, concept);
+                    if (ignore) return;
+                    if (!build) throw new Error('Project zip not found');
+
+                    const variables = mergeConceptValues(build.variables, concept.values);
+                    await saveSessionConfig(sessionId, variables);
+                    if (ignore) return;
+                    await stageSessionAssets(sessionId, variables);
+                    if (ignore) return;
+                    conceptBuilds[concept.id] = build;
+                }
+
+                setSessions(Object.fromEntries(sessionsRef.current));
+                setBuilds(conceptBuilds);
+                setReadyKey(conceptsParam);
+            } catch (err) {
+                if (ignore) return;
+                console.error(err);
+                setError('Failed to load previews');
+            }
+        };
+        prepare();
+        return () => {
+            ignore = true;
+        };
+    }, [id, project, conceptsParam]);
+
+    const toggleConcept = (conceptId: string) => {
+        const ids = compared.map(c => c.id);
+        const next = ids.includes(conceptId) ? ids.filter(c => c !== conceptId) : [...ids, conceptId];
+        if (next.length > MAX_COMPARED) {
+            alert(`Up to ${MAX_COMPARED} concepts can be compared at once`);
+            return;
+        }
+        setSearchParams({ concepts: next.join(',') }, { replace: true });
+    };
+
+    if (loading) {
+        return (
+            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+                <div style={{ color: 'var(--color-text-secondary)' }}>Loading comparison...</div>
+            </div>
+        );
+    }
+
+    if (error || !project) {
+        return (
+            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%', flexDirection: 'column', gap: '16px' }}>
+                <div style={{ color: 'var(--color-error)' }}>{error || 'Project not found'}</div>
+                <button onClick={() => navigate(`/project/${id}`)}>Back to Hub</button>
+            </div>
+        );
+    }
+
+    // Variables of every compared build; a concept whose build lacks one has no value for it
+    const allVariables = new Map<string, Variable>();
+    compared.forEach(c => builds[c.id]?.variables.forEach(v => {
+        if (!allVariables.has(v.name)) allVariables.set(v.name, v);
+    }));
+    const firstBuild = compared.length > 0 ? builds[compared[0].id] : undefined;
+
+    const rows = [...allVariables.values()]
+        .map(variable => {
+            const values = compared.map(c => {
+                const own = builds[c.id]?.variables.find(v => v.name === variable.name);
+                return own ? mergeConceptValues([own], c.values)[0].value : undefined;
+            });
+            const encoded = values.map(value => value === undefined ? undefined : encodeVariableValue(variable.type, value));
+            return { variable, values, differs: new Set(encoded).size > 1 };
+        })
+        .filter(row => !onlyDifferences || row.differs)
+        .sort((a, b) =>
+            (a.variable.section || 'Default').localeCompare(b.variable.section || 'Default') ||
+            (a.variable.order || 0) - (b.variable.order || 0)
+        );
+
+    const cellStyle: React.CSSProperties = {
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--color-border)',
+        fontSize: '13px',
+        textAlign: 'left'
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+                <button
+                    onClick={() => navigate(`/project/${id}`)}
+                    style={{
+                        background: 'none',
+                        border: 'none',
+                        color: 'var(--color-text-secondary)',
+                        cursor: 'pointer',
+                        fontSize: '14px'
+                    }}
+                >
+                    ← {project.name}
+                </button>
+                <div style={{ width: '1px', height: '24px', backgroundColor: 'var(--color-border)' }} />
+                {(project.concepts || []).map(concept => {
+                    const isSelected = compared.some(c => c.id === concept.id);
+                    return (
+                        <button
+                            key={concept.id}
+                            onClick={() => toggleConcept(concept.id)}
+                            style={{
+                                padding: '6px 12px',
+                                borderRadius: '16px',
+                                border: `1px solid ${isSelected ? 'var(--color-accent)' : 'var(--color-border)'}`,
+                                backgroundColor: isSelected ? 'rgba(255, 145, 250, 0.1)' : 'transparent',
+                                color: isSelected ? 'var(--color-accent)' : 'var(--color-text-secondary)',
+                                cursor: 'pointer',
+                                fontSize: '13px'
+                            }}
+                        >
+                            {concept.name}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {compared.length === 0 ? (
+                <div style={{ color: 'var(--color-text-secondary)', fontSize: '14px' }}>
+                    Pick the concepts to compare above.
+                </div>
+            ) : (
+                <>
+                    <div style={{ display: 'flex', gap: '16px', overflowX: 'auto' }}>
+                        {compared.map((concept, index) => (
+                            <div key={concept.id} style={{ flex: 1, minWidth: '340px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                                    <h3 style={{ fontSize: '16px', fontWeight: 600, margin: 0 }}>{concept.name}</h3>
+                                    <button
+                                        onClick={() => navigate(`/project/${id}/concept/${concept.id}`)}
+                                        style={{
+                                            background: 'none',
+                                            border: 'none',
+                                            color: 'var(--color-accent)',
+                                            cursor: 'pointer',
+                                            fontSize: '13px'
+                                        }}
+                                    >
+                                        Open
+                                    </button>
+                                </div>
+                                {index > 0 && builds[concept.id] && builds[concept.id].zipHash !== firstBuild?.zipHash && (
+                                    <div style={{ fontSize: '12px', color: '#f59e0b' }}>
+                                        Runs another build than {compared[0].name}
+                                    </div>
+                                )}
+                                {builds[concept.id] && readyKey === conceptsParam && sessions[concept.id] ? (
+                                    <PlayablePreview
+                                        src={previewUrl(project.id, sessions[concept.id], builds[concept.id].entryPoint)}
+                                        device={device}
+                                        onDeviceChange={setDevice}
+                                        showToolbar={index === 0}
+                                    />
+                                ) : (
+                                    <div style={{ color: 'var(--color-text-secondary)', fontSize: '13px' }}>Preparing preview...</div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div style={{
+                        backgroundColor: 'var(--color-bg-secondary)',
+                        borderRadius: 'var(--radius-lg)',
+                        border: '1px solid var(--color-border)',
+                        padding: '16px 24px'
+                    }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                            <h3 style={{ fontSize: '16px', fontWeight: 600, margin: 0 }}>Variables</h3>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: 'var(--color-text-secondary)' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={onlyDifferences}
+                                    onChange={(e) => setOnlyDifferences(e.target.checked)}
+                                />
+                                Only differences
+                            </label>
+                        </div>
+                        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                            <thead>
+                                <tr style={{ color: 'var(--color-text-secondary)' }}>
+                                    <th style={{ ...cellStyle, fontWeight: 500 }}>Variable</th>
+                                    {compared.map(c => <th key={c.id} style={{ ...cellStyle, fontWeight: 500 }}>{c.name}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(({ variable, values, differs }) => (
+                                    <tr
+                                        key={variable.name}
+                                        style={{ backgroundColor: differs ? 'rgba(245, 158, 11, 0.08)' : 'transparent' }}
+                                    >
+                                        <td style={{ ...cellStyle, fontFamily: 'monospace' }}>
+                                            {variable.name}
+                                            {variable.section && (
+                                                <span style={{ marginLeft: '6px', color: 'var(--color-text-secondary)', fontFamily: 'inherit' }}>
+                                                    ({variable.section})
+                                                </span>
+                                            )}
+                                        </td>
+                                        {values.map((value, i) => (
+                                            <td
+                                                key={compared[i].id}
+                                                style={{ ...cellStyle, color: differs ? '#f59e0b' : 'var(--color-text-primary)' }}
+                                            >
+                                                {value === undefined ? '—' : formatVariableText(variable.type, value)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                                {rows.length === 0 && (
+                                    <tr>
+                                        <td colSpan={compared.length + 1} style={{ ...cellStyle, color: 'var(--color-text-secondary)' }}>
+                                            {onlyDifferences ? 'All values are the same' : 'No variables exposed in this build'}
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
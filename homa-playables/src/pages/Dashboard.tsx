@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ProjectCard } from '../components/ProjectCard';
-import { parseProjectZip } from '../utils/ZipUtils';
+import { ConfigIssuesDialog } from '../components/ConfigIssuesDialog';
+import { parseProjectZip, type ParsedProject } from '../utils/ZipUtils';
+import type { ConfigIssue } from '../utils/ConfigSchema';
 import { saveProject, getAllProjects, deleteProject, updateProject } from '../db';
 import type { Project } from '../types';
 
@@ -12,6 +14,7 @@ export const Dashboard: React.FC = () => {
     const [isUploading, setIsUploading] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
     const [dragActive, setDragActive] = useState(false);
+    const [pendingImport, setPendingImport] = useState<{ file: File; parsed?: ParsedProject; issues: ConfigIssue[] } | null>(null);
 
     useEffect(() => {
         loadProjects();
@@ -36,38 +39,68 @@ export const Dashboard: React.FC = () => {
         setFilteredProjects(sorted);
     };
 
+    const createProject = async (file: File, parsed: ParsedProject) => {
+        const newProject: Project = {
+            id: crypto.randomUUID(),
+            name: file.name.replace('.zip', ''),
+            lastModified: Date.now(),
+            buildUrl: '', // Will be generated in Editor
+            variables: parsed.config.variables,
+            concepts: []
+        };
+
+        // Save to IndexedDB
+        await saveProject(newProject, file, parsed.config.buildInfo);
+
+        // Reload list
+        await loadProjects();
+
+        // Navigate to project hub
+        navigate(`/project/${newProject.id}`);
+    };
+
     const handleFileUpload = async (file: File) => {
         if (!file) return;
 
         try {
             setIsUploading(true);
-            const { config } = await parseProjectZip(file);
-
-            const newProject: Project = {
-                id: crypto.randomUUID(),
-                name: file.name.replace('.zip', ''),
-                lastModified: Date.now(),
-                buildUrl: '', // Will be generated in Editor
-                variables: config.variables,
-                concepts: []
-            };
+            const parsed = await parseProjectZip(file);
 
-            // Save to IndexedDB
-            await saveProject(newProject, file);
-
-            // Reload list
-            await loadProjects();
+            // Let the user review schema problems and migrations before importing
+            if (parsed.issues.length > 0 || parsed.migratedFrom) {
+                setPendingImport({ file, parsed, issues: parsed.issues });
+                return;
+            }
 
-            // Navigate to project hub
-            navigate(`/project/${newProject.id}`);
+            await createProject(file, parsed);
         } catch (error) {
             console.error('Failed to parse project:', error);
-            alert('Failed to load project. Please ensure it is a valid Homa Playable zip.');
+            setPendingImport({
+                file,
+                issues: [{
+                    severity: 'error',
+                    path: '',
+                    message: error instanceof Error ? error.message : 'Not a valid Homa Playable zip'
+                }]
+            });
         } finally {
             setIsUploading(false);
         }
     };
 
+    const handleConfirmImport = async () => {
+        if (!pendingImport?.parsed) return;
+        const { file, parsed } = pendingImport;
+        setPendingImport(null);
+
+        try {
+            await createProject(file, parsed);
+        } catch (error) {
+            console.error('Failed to save project:', error);
+            alert('Failed to save project');
+        }
+    };
+
     const onDrag = (e: React.DragEvent) => {
         e.preventDefault();
         e.stopPropagation();
@@ -117,6 +150,16 @@ export const Dashboard: React.FC = () => {
             flexDirection: 'column',
             gap: '40px'
         }}>
+            {pendingImport && (
+                <ConfigIssuesDialog
+                    fileName={pendingImport.file.name}
+                    issues={pendingImport.issues}
+                    migratedFrom={pendingImport.parsed?.migratedFrom}
+                    onClose={() => setPendingImport(null)}
+                    onImport={pendingImport.parsed ? handleConfirmImport : undefined}
+                />
+            )}
+
             {/* Header Section */}
             <header style={{
                 display: 'flex',
@@ -1,12 +1,27 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { PlayablePreview } from '../components/PlayablePreview';
+import { PlayablePreview, type PlayablePreviewHandle } from '../components/PlayablePreview';
 import { VariableInspector } from '../components/VariableInspector';
 import { MediaPickerModal } from '../components/MediaPickerModal';
-import { exportProject, type ExportNetwork } from '../utils/ExportManager';
-import { parseProjectZip } from '../utils/ZipUtils';
-import { getProject, getProjectZip, savePreviewFile, clearPreviewFiles, updateProject } from '../db';
-import type { Project, Variable, Concept, MediaItem } from '../types';
+import { ExportReportDialog } from '../components/ExportReportDialog';
+import { ConceptRevisionsDialog } from '../components/ConceptRevisionsDialog';
+import { exportProject, type ExportNetwork, type ExportResult } from '../utils/ExportManager';
+import { getNetworkAdapters } from '../utils/networks';
+import { downloadBlob } from '../utils/DownloadUtils';
+import { loadConceptPreview, previewUrl, saveSessionConfig, stageSessionAssets } from '../utils/PreviewLoader';
+import { openPreviewSession, closePreviewSession } from '../utils/PreviewSession';
+import { mergeConceptValues } from '../utils/VariableCodec';
+import { createHistory, pushHistory, jumpTo, canUndo, canRedo, type EditHistory } from '../utils/EditHistory';
+import {
+    getProject,
+    addConceptRevision,
+    getConceptRevisions,
+    getConceptBuildZip,
+    getBuildRevisions,
+    saveSessionFile,
+    updateProject
+} from '../db';
+import type { Project, Variable, Concept, ConceptRevision, MediaItem, BuildRevision } from '../types';
 
 class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean, error: any }> {
     constructor(props: { children: React.ReactNode }) {
@@ -42,17 +57,47 @@ export const Editor: React.FC = () => {
     const [project, setProject] = useState<Project | null>(null);
     const [variables, setVariables] = useState<Variable[]>([]);
     const [originalVariables, setOriginalVariables] = useState<Variable[]>([]);
+    const [buildVariables, setBuildVariables] = useState<Variable[]>([]);
+    const [history, setHistory] = useState<EditHistory>(() => createHistory([]));
     const [currentConcept, setCurrentConcept] = useState<Concept | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
     const [mediaPickerOpen, setMediaPickerOpen] = useState(false);
     const [activeAssetVariable, setActiveAssetVariable] = useState<{ name: string, type: string } | null>(null);
+    const [pendingExport, setPendingExport] = useState<ExportResult | null>(null);
+    const [revisions, setRevisions] = useState<BuildRevision[]>([]);
+    const [buildReloadKey, setBuildReloadKey] = useState(0);
+    const [conceptRevisions, setConceptRevisions] = useState<ConceptRevision[]>([]);
+    const [isRevisionsOpen, setIsRevisionsOpen] = useState(false);
+    const [saveMessage, setSaveMessage] = useState('');
+    const [sessionId, setSessionId] = useState<string | null>(null); // Preview namespace of this tab
     const debounceTimerRef = useRef<number | null>(null);
+    const previewRef = useRef<PlayablePreviewHandle>(null);
+    const liveVariablesRef = useRef<Variable[] | null>(null); // What the running build has, null until it loaded ours
+
+    useEffect(() => {
+        if (!id) return;
+        let opened: string | null = null;
+        let cancelled = false;
+        openPreviewSession(id).then(newSessionId => {
+            if (cancelled) {
+                closePreviewSession(newSessionId);
+                return;
+            }
+            opened = newSessionId;
+            setSessionId(newSessionId);
+        });
+        return () => {
+            cancelled = true;
+            if (opened) closePreviewSession(opened);
+            setSessionId(null);
+        };
+    }, [id]);
 
     useEffect(() => {
         const loadProject = async () => {
-            if (!id) return;
+            if (!id || !sessionId) return;
             try {
                 const proj = await getProject(id);
                 if (!proj) {
@@ -68,33 +113,25 @@ export const Editor: React.FC = () => {
                     return;
                 }
                 setCurrentConcept(concept);
+                setRevisions(await getBuildRevisions(id));
+                setConceptRevisions(await getConceptRevisions(concept.id));
 
-                const zipBlob = await getProjectZip(id);
-                if (zipBlob) {
-                    await clearPreviewFiles(id);
-                    const { config, files, entryPoint } = await parseProjectZip(zipBlob as File);
-                    const baseVars = config.variables || [];
-
-                    // Save files for preview
-                    for (const [path, content] of Object.entries(files)) {
-                        await savePreviewFile(id, path, content);
-                    }
-
-                    // Merge base vars with concept values
-                    const mergedVars = baseVars.map(v => {
-                        if (concept.values[v.name] !== undefined) {
-                            return { ...v, value: concept.values[v.name] };
-                        }
-                        return v;
-                    });
+                // Pinned concepts preview their own build revision
+                const preview = await loadConceptPreview(sessionId, id, concept);
+                if (preview) {
+                    const { entryPoint, variables: baseVars } = preview;
+                    const mergedVars = mergeConceptValues(baseVars, concept.values);
 
+                    setBuildVariables(baseVars);
                     setVariables(mergedVars);
                     setOriginalVariables(mergedVars); // Original for this session is the concept state
+                    setHistory(createHistory(mergedVars));
+                    await stageSessionAssets(sessionId, mergedVars);
+                    liveVariablesRef.current = null;
                     updateLiveConfig(mergedVars); // Initial load
 
                     // Construct and update preview URL
-                    const previewUrl = `/preview/${id}/${entryPoint}`;
-                    setProject(prev => prev ? { ...prev, buildUrl: previewUrl } : null);
+                    setProject(prev => prev ? { ...prev, buildUrl: previewUrl(id, sessionId, entryPoint) } : null);
                 }
             } catch (err) {
                 console.error(err);
@@ -104,47 +141,55 @@ export const Editor: React.FC = () => {
             }
         };
         loadProject();
-    }, [id, conceptId]);
+    }, [id, conceptId, buildReloadKey, sessionId]);
 
     const updateLiveConfig = useCallback(async (newVariables: Variable[]) => {
-        if (!id) return;
+        if (!sessionId) return;
 
         if (debounceTimerRef.current) {
             window.clearTimeout(debounceTimerRef.current);
         }
 
         debounceTimerRef.current = window.setTimeout(async () => {
-            // Unity expects: { variables: [{ name: "key", value: "val" }, ...] }
-            const config = {
-                variables: newVariables.map(v => ({
-                    name: v.name,
-                    value: String(v.value)
-                }))
-            };
-
-            const configBlob = new Blob([JSON.stringify(config)], { type: 'application/json' });
-            await savePreviewFile(id, 'homa_config.json', configBlob);
-
-            const iframe = document.querySelector('iframe');
-            if (iframe) {
-                iframe.src = iframe.src;
+            // Saved either way so the next reload starts with these values
+            await saveSessionConfig(sessionId, newVariables);
+
+            const live = liveVariablesRef.current;
+            liveVariablesRef.current = newVariables;
+            const changed = live
+                ? newVariables.filter(v => live.find(l => l.name === v.name)?.value !== v.value)
+                : newVariables;
+            if (live && changed.length === 0) return;
+
+            // Push into the running build, restart it when that is not enough
+            const applied = live !== null &&
+                !changed.some(v => v.requiresRestart) &&
+                !!await previewRef.current?.setVariables(changed);
+            if (!applied) {
+                previewRef.current?.reload();
             }
         }, 500);
-    }, [id]);
+    }, [sessionId]);
+
+    const applyChange = (newVariables: Variable[], label: string, mergeKey?: string) => {
+        setVariables(newVariables);
+        setHistory(prev => pushHistory(prev, newVariables, label, mergeKey));
+        setHasUnsavedChanges(newVariables !== originalVariables);
+        updateLiveConfig(newVariables);
+    };
 
-    const handleVariableUpdate = (name: string, value: any) => {
+    // Without a label, repeated edits of one variable (slider drags, typing) merge into one entry
+    const handleVariableUpdate = (name: string, value: any, label?: string) => {
         const newVariables = variables.map(v =>
             v.name === name ? { ...v, value } : v
         );
-        setVariables(newVariables);
-        setHasUnsavedChanges(true);
-        updateLiveConfig(newVariables);
+        applyChange(newVariables, label ?? `Changed ${name}`, label ? undefined : `value:${name}`);
     };
 
     const handleResetVariable = (name: string) => {
         const original = originalVariables.find(v => v.name === name);
         if (original) {
-            handleVariableUpdate(name, original.value);
+            handleVariableUpdate(name, original.value, `Reset ${name}`);
         }
     };
 
@@ -156,22 +201,53 @@ export const Editor: React.FC = () => {
             }
             return v;
         });
-        setVariables(newVariables);
-        setHasUnsavedChanges(true);
-        updateLiveConfig(newVariables);
+        applyChange(newVariables, `Reset section ${section}`);
     };
 
     const handleResetAll = () => {
-        setVariables(originalVariables);
-        setHasUnsavedChanges(false);
-        updateLiveConfig(originalVariables);
+        applyChange(originalVariables, 'Reset all');
+    };
+
+    const handleHistoryJump = (index: number) => {
+        const next = jumpTo(history, index);
+        const { variables: snapshot } = next.entries[next.index];
+        setHistory(next);
+        setVariables(snapshot);
+        setHasUnsavedChanges(snapshot !== originalVariables);
+        updateLiveConfig(snapshot);
     };
 
+    const handleUndo = () => {
+        if (canUndo(history)) handleHistoryJump(history.index - 1);
+    };
+
+    const handleRedo = () => {
+        if (canRedo(history)) handleHistoryJump(history.index + 1);
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), text fields keep their own undo
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            const target = e.target as HTMLElement;
+            if (target.isContentEditable || target.tagName === 'TEXTAREA' ||
+                (target instanceof HTMLInputElement && ['text', 'number', 'search'].includes(target.type))) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
+
     const handleReload = () => {
-        const iframe = document.querySelector('iframe');
-        if (iframe) {
-            iframe.src = iframe.src;
-        }
+        previewRef.current?.reload();
     };
 
     const handleSave = async () => {
@@ -190,10 +266,35 @@ export const Editor: React.FC = () => {
             c.id === currentConcept.id ? updatedConcept : c
         );
 
+        const newRevisions: ConceptRevision[] = [{
+            id: crypto.randomUUID(),
+            projectId: project.id,
+            conceptId: currentConcept.id,
+            createdAt: now,
+            message: saveMessage.trim() || undefined,
+            values
+        }];
+        // Keep the state from before the first save of a concept that has no history yet
+        if (conceptRevisions.length === 0) {
+            newRevisions.push({
+                id: crypto.randomUUID(),
+                projectId: project.id,
+                conceptId: currentConcept.id,
+                createdAt: currentConcept.updatedAt,
+                message: 'Before revision history',
+                values: currentConcept.values
+            });
+        }
+
         try {
             await updateProject(project.id, { concepts: updatedConcepts });
+            for (const revision of newRevisions) {
+                await addConceptRevision(revision);
+            }
             setCurrentConcept(updatedConcept);
             setProject(prev => prev ? { ...prev, concepts: updatedConcepts } : null);
+            setConceptRevisions(prev => [...newRevisions, ...prev]);
+            setSaveMessage('');
             setHasUnsavedChanges(false);
             setOriginalVariables(variables); // Update "original" to current saved state
         } catch (err) {
@@ -202,37 +303,86 @@ export const Editor: React.FC = () => {
         }
     };
 
+    // Restoring saves the old values as a new revision, later ones stay in the timeline
+    const handleRestoreRevision = async (revision: ConceptRevision) => {
+        if (!project || !currentConcept) return;
+        if (hasUnsavedChanges && !confirm('Restoring discards unsaved changes. Continue?')) return;
+
+        const now = Date.now();
+        const restored: ConceptRevision = {
+            id: crypto.randomUUID(),
+            projectId: project.id,
+            conceptId: currentConcept.id,
+            createdAt: now,
+            message: 'Restored',
+            values: revision.values,
+            restoredFromId: revision.id
+        };
+        const updatedConcept = { ...currentConcept, values: revision.values, updatedAt: now };
+        const updatedConcepts = (project.concepts || []).map(c =>
+            c.id === currentConcept.id ? updatedConcept : c
+        );
+
+        try {
+            await updateProject(project.id, { concepts: updatedConcepts });
+            await addConceptRevision(restored);
+
+            const restoredVariables = mergeConceptValues(buildVariables, revision.values);
+            setCurrentConcept(updatedConcept);
+            setProject(prev => prev ? { ...prev, concepts: updatedConcepts } : null);
+            setConceptRevisions(prev => [restored, ...prev]);
+            setVariables(restoredVariables);
+            setOriginalVariables(restoredVariables);
+            setHistory(prev => pushHistory(prev, restoredVariables, 'Restored revision'));
+            setHasUnsavedChanges(false);
+            updateLiveConfig(restoredVariables);
+        } catch (err) {
+            console.error('Failed to restore revision:', err);
+            alert('Failed to restore revision');
+        }
+    };
+
     const handleExport = async (network: ExportNetwork) => {
-        if (!project) return;
+        if (!project || !currentConcept) return;
         try {
-            const zipBlob = await getProjectZip(project.id);
+            const zipBlob = await getConceptBuildZip(project.id, currentConcept);
             if (!zipBlob) throw new Error('Project zip not found');
 
-            const values = variables.reduce((acc, v) => ({ ...acc, [v.name]: v.value }), {});
-            const exportBlob = await exportProject(zipBlob as File, values, network, `${project.name}-${currentConcept?.name}`);
-
-            // Download the exported file
-            const filename = network === 'applovin'
-                ? `${project.name}-${currentConcept?.name}-applovin.html`
-                : `${project.name}-${currentConcept?.name}-mintegral.zip`;
-            downloadBlob(exportBlob, filename);
+            const result = await exportProject(zipBlob as File, variables, network, `${project.name}-${currentConcept?.name}`, project);
 
-            console.log(`[Export] Successfully exported ${filename}`);
+            // Review the size report before downloading
+            setPendingExport(result);
         } catch (err) {
             console.error('Export failed:', err);
             alert(`Export failed: ${err instanceof Error ? err.message : 'See console for details.'}`);
         }
     };
 
-    const downloadBlob = (blob: Blob, filename: string) => {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    const handlePinBuild = async (revisionId: string) => {
+        if (!project || !currentConcept) return;
+        if (hasUnsavedChanges && !confirm('Switching builds reloads the preview and discards unsaved changes. Continue?')) return;
+
+        // Pinning to the current build is the same as following it
+        const buildRevisionId = revisionId && revisionId !== project.currentRevisionId ? revisionId : undefined;
+        const updatedConcepts = (project.concepts || []).map(c =>
+            c.id === currentConcept.id ? { ...c, buildRevisionId } : c
+        );
+
+        try {
+            await updateProject(project.id, { concepts: updatedConcepts });
+            setHasUnsavedChanges(false);
+            setBuildReloadKey(key => key + 1);
+        } catch (err) {
+            console.error('Failed to pin build:', err);
+            alert('Failed to pin build');
+        }
+    };
+
+    const handleExportDownload = () => {
+        if (!pendingExport) return;
+        downloadBlob(pendingExport.blob, pendingExport.filename);
+        console.log(`[Export] Successfully exported ${pendingExport.filename}`);
+        setPendingExport(null);
     };
 
     const openMediaPicker = (variableName: string, assetType: string) => {
@@ -241,16 +391,16 @@ export const Editor: React.FC = () => {
     };
 
     const handleAssetSelect = async (item: MediaItem) => {
-        if (!activeAssetVariable || !id) return;
+        if (!activeAssetVariable || !sessionId) return;
 
         try {
-            // Save the file to the preview environment
+            // Save the file to this tab's preview session
             // We'll use a convention like 'assets/[filename]'
             const path = `assets/${item.name}`;
-            await savePreviewFile(id, path, item.blob);
+            await saveSessionFile(sessionId, path, item.blob);
 
             // Update the variable with the path
-            handleVariableUpdate(activeAssetVariable.name, path);
+            handleVariableUpdate(activeAssetVariable.name, path, `Picked ${item.name} for ${activeAssetVariable.name}`);
             setMediaPickerOpen(false);
             setActiveAssetVariable(null);
         } catch (err) {
@@ -408,24 +558,8 @@ export const Editor: React.FC = () => {
 
                         <div style={{ display: 'flex', gap: '8px' }}>
                             <button
-                                onClick={handleSave}
-                                disabled={!hasUnsavedChanges}
-                                style={{
-                                    padding: '8px 24px',
-                                    backgroundColor: 'var(--color-accent)',
-                                    border: 'none',
-                                    color: 'white',
-                                    borderRadius: 'var(--radius-sm)',
-                                    cursor: 'pointer',
-                                    fontWeight: 600,
-                                    opacity: hasUnsavedChanges ? 1 : 0.5
-                                }}
-                            >
-                                Save Concept
-                            </button>
-                            <div style={{ width: '1px', backgroundColor: 'var(--color-border)', margin: '0 8px' }} />
-                            <button
-                                onClick={() => handleExport('mintegral')}
+                                onClick={() => setIsRevisionsOpen(true)}
+                                title="Saved revisions of this concept"
                                 style={{
                                     padding: '8px 16px',
                                     backgroundColor: 'var(--color-bg-tertiary)',
@@ -435,26 +569,85 @@ export const Editor: React.FC = () => {
                                     cursor: 'pointer'
                                 }}
                             >
-                                Export Mintegral
+                                Revisions ({conceptRevisions.length})
                             </button>
+                            {revisions.length > 1 && (
+                                <select
+                                    value={currentConcept.buildRevisionId ?? ''}
+                                    onChange={(e) => handlePinBuild(e.target.value)}
+                                    title="Build this concept previews and exports with"
+                                    style={{
+                                        padding: '8px',
+                                        backgroundColor: 'var(--color-bg-tertiary)',
+                                        border: '1px solid var(--color-border)',
+                                        color: 'var(--color-text-primary)',
+                                        borderRadius: 'var(--radius-sm)',
+                                        fontSize: '13px'
+                                    }}
+                                >
+                                    <option value="">Current build</option>
+                                    {revisions.filter(r => r.id !== project.currentRevisionId).map(r => (
+                                        <option key={r.id} value={r.id}>
+                                            Pinned: {r.label} ({new Date(r.createdAt).toLocaleDateString()})
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                            {hasUnsavedChanges && (
+                                <input
+                                    value={saveMessage}
+                                    onChange={(e) => setSaveMessage(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                                    placeholder="Save message (optional)"
+                                    style={{
+                                        padding: '8px',
+                                        backgroundColor: 'var(--color-bg-tertiary)',
+                                        border: '1px solid var(--color-border)',
+                                        color: 'var(--color-text-primary)',
+                                        borderRadius: 'var(--radius-sm)',
+                                        fontSize: '13px',
+                                        width: '180px'
+                                    }}
+                                />
+                            )}
                             <button
-                                onClick={() => handleExport('applovin')}
+                                onClick={handleSave}
+                                disabled={!hasUnsavedChanges}
                                 style={{
-                                    padding: '8px 16px',
-                                    backgroundColor: 'var(--color-bg-tertiary)',
-                                    border: '1px solid var(--color-border)',
-                                    color: 'var(--color-text-primary)',
+                                    padding: '8px 24px',
+                                    backgroundColor: 'var(--color-accent)',
+                                    border: 'none',
+                                    color: 'white',
                                     borderRadius: 'var(--radius-sm)',
-                                    cursor: 'pointer'
+                                    cursor: 'pointer',
+                                    fontWeight: 600,
+                                    opacity: hasUnsavedChanges ? 1 : 0.5
                                 }}
                             >
-                                Export AppLovin
+                                Save Concept
                             </button>
+                            <div style={{ width: '1px', backgroundColor: 'var(--color-border)', margin: '0 8px' }} />
+                            {getNetworkAdapters().map(adapter => (
+                                <button
+                                    key={adapter.id}
+                                    onClick={() => handleExport(adapter.id)}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: 'var(--color-bg-tertiary)',
+                                        border: '1px solid var(--color-border)',
+                                        color: 'var(--color-text-primary)',
+                                        borderRadius: 'var(--radius-sm)',
+                                        cursor: 'pointer'
+                                    }}
+                                >
+                                    Export {adapter.label}
+                                </button>
+                            ))}
                         </div>
                     </div>
 
                     <div style={{ flex: 1, minHeight: 0 }}>
-                        <PlayablePreview src={project.buildUrl} />
+                        <PlayablePreview ref={previewRef} src={project.buildUrl} />
                     </div>
                 </div>
 
@@ -467,6 +660,10 @@ export const Editor: React.FC = () => {
                         onResetAll={handleResetAll}
                         onReload={handleReload}
                         onAssetSelect={openMediaPicker}
+                        history={history}
+                        onUndo={handleUndo}
+                        onRedo={handleRedo}
+                        onHistoryJump={handleHistoryJump}
                     />
                 </div>
             </div>
@@ -477,6 +674,25 @@ export const Editor: React.FC = () => {
                 onSelect={handleAssetSelect}
                 allowedTypes={activeAssetVariable ? getMediaTypesForAsset(activeAssetVariable.type) : undefined}
             />
+
+            {isRevisionsOpen && (
+                <ConceptRevisionsDialog
+                    revisions={conceptRevisions}
+                    variables={buildVariables}
+                    onRestore={handleRestoreRevision}
+                    onClose={() => setIsRevisionsOpen(false)}
+                />
+            )}
+
+            {pendingExport && (
+                <ExportReportDialog
+                    report={pendingExport.report}
+                    issues={pendingExport.issues}
+                    filename={pendingExport.filename}
+                    onClose={() => setPendingExport(null)}
+                    onDownload={handleExportDownload}
+                />
+            )}
         </ErrorBoundary>
     );
 };
@@ -1,14 +1,65 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { getProject, updateProject } from '../db';
-import type { Project, Concept } from '../types';
+import {
+    getProject,
+    getProjectZip,
+    getBlob,
+    updateProject,
+    replaceProjectBuild,
+    getPreviousBuild,
+    rollbackProjectBuild,
+    getBuildRevisions,
+    renameBuildRevision,
+    deleteConceptRevisions,
+    addConceptRevisions
+} from '../db';
+import type { Project, Concept, BuildRevision } from '../types';
+import {
+    exportBatch,
+    type BatchExportItem,
+    type BatchExportResult,
+    type ExportNetwork,
+    type ExportSettings
+} from '../utils/ExportManager';
+import { getNetworkAdapters } from '../utils/networks';
+import { downloadBlob } from '../utils/DownloadUtils';
+import { encodeVariableValue, mergeConceptValues } from '../utils/VariableCodec';
+import { StoreUrlSettings } from '../components/StoreUrlSettings';
+import { ConfigIssuesDialog } from '../components/ConfigIssuesDialog';
+import { BatchExportReportDialog } from '../components/BatchExportReportDialog';
+import { BuildMigrationDialog } from '../components/BuildMigrationDialog';
+import { BuildHistoryPanel } from '../components/BuildHistoryPanel';
+import { VariantGeneratorDialog } from '../components/VariantGeneratorDialog';
+import { parseProjectZip, type ParsedProject } from '../utils/ZipUtils';
+import type { ConfigIssue } from '../utils/ConfigSchema';
+import { migrateBuild, getOrphanedValues, planBuildRollback, type BuildMigrationResult } from '../utils/BuildMigration';
+import {
+    CONCEPT_FILE_EXTENSION,
+    exportConceptFile,
+    readConceptFile,
+    prepareConceptImport,
+    importConceptMedia,
+    type ConceptImport
+} from '../utils/ConceptFile';
+import { conceptsToTable, getPinnedConcepts, tableToConcepts, type ConceptSheetImport } from '../utils/ConceptSheet';
+import { toCsv, toXlsx, readTable, type SpreadsheetFormat } from '../utils/SpreadsheetUtils';
 import {
     ArrowLeft,
     Plus,
     Copy,
     Trash2,
     Clock,
-    Edit3
+    Edit3,
+    Package,
+    Upload,
+    RotateCcw,
+    AlertTriangle,
+    Pin,
+    Download,
+    FileInput,
+    FileSpreadsheet,
+    Grid3x3,
+    Columns
 } from 'lucide-react';
 
 export const ProjectHub: React.FC = () => {
@@ -20,6 +71,23 @@ export const ProjectHub: React.FC = () => {
     const [isCreating, setIsCreating] = useState(false);
     const [newConceptName, setNewConceptName] = useState('');
     const [sourceConcept, setSourceConcept] = useState<Concept | null>(null); // If duplicating
+    const [isBatchOpen, setIsBatchOpen] = useState(false);
+    const [batchNetworks, setBatchNetworks] = useState<ExportNetwork[]>([]);
+    const [batchAllowOverLimit, setBatchAllowOverLimit] = useState(false);
+    const [batchProgress, setBatchProgress] = useState<{ done: number; total: number; label: string } | null>(null);
+    const [batchResult, setBatchResult] = useState<BatchExportResult | null>(null);
+    const [previousBuildDate, setPreviousBuildDate] = useState<number | null>(null);
+    const [buildIssues, setBuildIssues] = useState<{ file: File; parsed?: ParsedProject; issues: ConfigIssue[] } | null>(null);
+    const [pendingBuild, setPendingBuild] = useState<{ file: File; parsed: ParsedProject; migration: BuildMigrationResult } | null>(null);
+    const [isApplyingBuild, setIsApplyingBuild] = useState(false);
+    const [revisions, setRevisions] = useState<BuildRevision[]>([]);
+    const buildInputRef = useRef<HTMLInputElement>(null);
+    const [pendingConceptImport, setPendingConceptImport] = useState<{ fileName: string; prepared: ConceptImport } | null>(null);
+    const conceptInputRef = useRef<HTMLInputElement>(null);
+    const [isSheetOpen, setIsSheetOpen] = useState(false);
+    const [pendingSheetImport, setPendingSheetImport] = useState<{ fileName: string; result: ConceptSheetImport } | null>(null);
+    const sheetInputRef = useRef<HTMLInputElement>(null);
+    const [isGeneratorOpen, setIsGeneratorOpen] = useState(false);
 
     useEffect(() => {
         const loadProject = async () => {
@@ -30,7 +98,12 @@ export const ProjectHub: React.FC = () => {
                     setError('Project not found');
                     return;
                 }
-                setProject(proj);
+                setRevisions(await getBuildRevisions(id));
+                // Reload: listing revisions may have created the first one
+                setProject(await getProject(id) ?? proj);
+
+                const previous = await getPreviousBuild(id);
+                setPreviousBuildDate(previous?.replacedAt ?? null);
             } catch (err) {
                 console.error(err);
                 setError('Failed to load project');
@@ -89,6 +162,7 @@ export const ProjectHub: React.FC = () => {
 
         try {
             await updateProject(project.id, { concepts: updatedConcepts });
+            await deleteConceptRevisions(conceptId);
             setProject(prev => prev ? { ...prev, concepts: updatedConcepts } : null);
         } catch (err) {
             console.error('Failed to delete concept:', err);
@@ -96,18 +170,284 @@ export const ProjectHub: React.FC = () => {
         }
     };
 
+    const handleExportConcept = async (concept: Concept) => {
+        if (!project) return;
+        try {
+            const variables = revisions.find(r => r.id === concept.buildRevisionId)?.variables ?? project.variables;
+            const blob = await exportConceptFile(project, concept, variables);
+            downloadBlob(blob, `${project.name}-${concept.name}${CONCEPT_FILE_EXTENSION}`);
+        } catch (err) {
+            console.error('Failed to export concept:', err);
+            alert('Failed to export concept');
+        }
+    };
+
+    const handleConceptFile = async (file: File) => {
+        if (!project) return;
+        try {
+            const prepared = await prepareConceptImport(readConceptFile(await file.text()), project);
+            if (prepared.issues.length > 0) {
+                setPendingConceptImport({ fileName: file.name, prepared });
+            } else {
+                await handleImportConcept(prepared);
+            }
+        } catch (err) {
+            console.error('Failed to read concept file:', err);
+            alert(`Failed to read concept file: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const handleImportConcept = async (prepared: ConceptImport) => {
+        if (!project) return;
+        try {
+            const concept = await importConceptMedia(prepared.concept, prepared.media);
+            const updatedConcepts = [...(project.concepts || []), concept];
+            await updateProject(project.id, { concepts: updatedConcepts });
+            await addConceptRevisions(project.id, [], [concept], 'Imported from a concept file');
+            setProject(prev => prev ? { ...prev, concepts: updatedConcepts } : null);
+            setPendingConceptImport(null);
+        } catch (err) {
+            console.error('Failed to import concept:', err);
+            alert('Failed to import concept');
+        }
+    };
+
+    const handleExportSheet = async (format: SpreadsheetFormat) => {
+        if (!project) return;
+        try {
+            const table = conceptsToTable(project);
+            const blob = format === 'xlsx' ? await toXlsx(table, 'Concepts') : toCsv(table);
+            downloadBlob(blob, `${project.name}-concepts.${format}`);
+            const pinned = getPinnedConcepts(project);
+            if (pinned.length > 0) {
+                alert(`Left out ${pinned.length} concept(s) pinned to another build: ${pinned.map(c => c.name).join(', ')}`);
+            }
+        } catch (err) {
+            console.error('Failed to export spreadsheet:', err);
+            alert('Failed to export spreadsheet');
+        }
+    };
+
+    const handleSheetFile = async (file: File) => {
+        if (!project) return;
+        try {
+            const result = tableToConcepts(await readTable(file), project);
+            if (result.issues.length > 0) {
+                setPendingSheetImport({ fileName: file.name, result });
+            } else {
+                await handleApplySheet(result);
+            }
+        } catch (err) {
+            console.error('Failed to read spreadsheet:', err);
+            alert(`Failed to read spreadsheet: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const handleApplySheet = async (result: ConceptSheetImport) => {
+        if (!project) return;
+        try {
+            await updateProject(project.id, { concepts: result.concepts });
+            await addConceptRevisions(project.id, project.concepts || [], result.concepts, 'Imported from a spreadsheet');
+            setProject(prev => prev ? { ...prev, concepts: result.concepts } : null);
+            setPendingSheetImport(null);
+            alert(`Created ${result.created} and updated ${result.updated} concept(s)`);
+        } catch (err) {
+            console.error('Failed to import spreadsheet:', err);
+            alert('Failed to import spreadsheet');
+        }
+    };
+
+    const handleCreateVariants = async (variants: Concept[]) => {
+        if (!project) return;
+        try {
+            const updatedConcepts = [...(project.concepts || []), ...variants];
+            await updateProject(project.id, { concepts: updatedConcepts });
+            await addConceptRevisions(project.id, [], variants, 'Created by the variant generator');
+            setProject(prev => prev ? { ...prev, concepts: updatedConcepts } : null);
+            setIsGeneratorOpen(false);
+        } catch (err) {
+            console.error('Failed to create variants:', err);
+            alert('Failed to create variants');
+        }
+    };
+
     const startCreate = (source: Concept | null = null) => {
         setSourceConcept(source);
         setNewConceptName(source ? `${source.name} (Copy)` : '');
         setIsCreating(true);
     };
 
+    const toggleBatchNetwork = (network: ExportNetwork) => {
+        setBatchNetworks(prev => prev.includes(network)
+            ? prev.filter(n => n !== network)
+            : [...prev, network]
+        );
+    };
+
+    const handleBatchExport = async () => {
+        if (!project || batchNetworks.length === 0) return;
+        const concepts = project.concepts || [];
+        if (concepts.length === 0) return;
+
+        try {
+            const zipBlob = await getProjectZip(project.id);
+            if (!zipBlob) throw new Error('Project zip not found');
+
+            // Concepts only store overrides, fill the rest with the defaults of their build
+            const items: BatchExportItem[] = await Promise.all(concepts.map(async c => {
+                if (!c.buildRevisionId) {
+                    return { name: c.name, variables: mergeConceptValues(project.variables, c.values) };
+                }
+
+                // Never fall back to the current build for a pinned concept
+                const pinned = revisions.find(r => r.id === c.buildRevisionId);
+                const zipBlob = pinned && await getBlob(pinned.hash);
+                return {
+                    name: c.name,
+                    variables: mergeConceptValues(pinned ? pinned.variables : project.variables, c.values),
+                    zipBlob,
+                    error: zipBlob ? undefined : `Pinned build ${pinned ? `"${pinned.label}" ` : ''}is missing`
+                };
+            }));
+
+            setBatchProgress({ done: 0, total: items.length * batchNetworks.length, label: 'Loading build...' });
+            const result = await exportBatch(zipBlob, items, batchNetworks, project.name, project,
+                (done, total, label) => setBatchProgress({ done, total, label }),
+                batchAllowOverLimit
+            );
+
+            if (result.exported > 0) {
+                downloadBlob(result.blob, `${project.name}-batch.zip`);
+            }
+
+            setIsBatchOpen(false);
+            setBatchResult(result);
+        } catch (err) {
+            console.error('Batch export failed:', err);
+            alert(`Batch export failed: ${err instanceof Error ? err.message : 'See console for details.'}`);
+        } finally {
+            setBatchProgress(null);
+        }
+    };
+
+    const reviewBuildMigration = (file: File, parsed: ParsedProject) => {
+        if (!project) return;
+        setBuildIssues(null);
+
+        // Concepts pinned to a build keep their values, only those following the current build migrate
+        const concepts = project.concepts || [];
+        const migration = migrateBuild(project.variables, parsed.config.variables, concepts.filter(c => !c.buildRevisionId));
+        const migrated = new Map(migration.concepts.map(c => [c.id, c]));
+        setPendingBuild({
+            file,
+            parsed,
+            migration: { ...migration, concepts: concepts.map(c => migrated.get(c.id) ?? c) }
+        });
+    };
+
+    const handleBuildFile = async (file: File) => {
+        try {
+            const parsed = await parseProjectZip(file);
+            // Schema problems are reviewed first, errors block the update
+            if (parsed.issues.length > 0 || parsed.migratedFrom) {
+                setBuildIssues({ file, parsed, issues: parsed.issues });
+                return;
+            }
+            reviewBuildMigration(file, parsed);
+        } catch (err) {
+            console.error('Failed to parse build:', err);
+            setBuildIssues({
+                file,
+                issues: [{
+                    severity: 'error',
+                    path: '',
+                    message: err instanceof Error ? err.message : 'Not a valid Homa Playable zip'
+                }]
+            });
+        }
+    };
+
+    const handleApplyBuild = async () => {
+        if (!project || !pendingBuild) return;
+        setIsApplyingBuild(true);
+        try {
+            const updated = await replaceProjectBuild(project.id, pendingBuild.file, {
+                variables: pendingBuild.parsed.config.variables,
+                concepts: pendingBuild.migration.concepts,
+                lastModified: Date.now()
+            }, pendingBuild.parsed.config.buildInfo);
+            setProject(updated);
+            setRevisions(await getBuildRevisions(project.id));
+            setPreviousBuildDate(Date.now());
+            setPendingBuild(null);
+        } catch (err) {
+            console.error('Failed to update build:', err);
+            alert('Failed to update build');
+        } finally {
+            setIsApplyingBuild(false);
+        }
+    };
+
+    const handleRollbackBuild = async () => {
+        if (!project) return;
+
+        try {
+            const previous = await getPreviousBuild(project.id);
+            if (!previous) throw new Error('No previous build to roll back to');
+
+            const { rollbacks } = planBuildRollback(project.concepts, previous);
+            const reverted = rollbacks.filter(r => r.reverted.length > 0);
+            const kept = rollbacks.filter(r => r.kept.length > 0);
+            const lines = ['Restore the previous build?'];
+            if (reverted.length > 0) {
+                lines.push('', 'Values changed by the update go back to how they were:');
+                lines.push(...reverted.map(r => `• ${r.conceptName}: ${r.reverted.join(', ')}`));
+            }
+            if (kept.length > 0) {
+                lines.push('', 'Edited since the update, kept as they are (may not match the previous build):');
+                lines.push(...kept.map(r => `• ${r.conceptName}: ${r.kept.join(', ')}`));
+            }
+            lines.push('', 'Concepts created or renamed since the update are kept.');
+            if (!confirm(lines.join('\n'))) return;
+
+            const updated = await rollbackProjectBuild(project.id);
+            setProject(updated);
+            setRevisions(await getBuildRevisions(project.id));
+            setPreviousBuildDate(null);
+        } catch (err) {
+            console.error('Rollback failed:', err);
+            alert('Rollback failed');
+        }
+    };
+
+    const handleRenameRevision = async (revisionId: string, label: string) => {
+        try {
+            await renameBuildRevision(revisionId, label);
+            setRevisions(prev => prev.map(r => r.id === revisionId ? { ...r, label } : r));
+        } catch (err) {
+            console.error('Failed to rename build:', err);
+            alert('Failed to rename build');
+        }
+    };
+
+    const handleSaveStoreUrls = async (updates: ExportSettings) => {
+        if (!project) return;
+        try {
+            await updateProject(project.id, updates);
+            setProject(prev => prev ? { ...prev, ...updates } : null);
+        } catch (err) {
+            console.error('Failed to save store URLs:', err);
+            alert('Failed to save store URLs');
+        }
+    };
+
     const getModifiedCount = (concept: Concept) => {
         if (!project) return 0;
         let count = 0;
         project.variables.forEach(v => {
             // Check if the concept has a value for this variable AND it's different from the default
-            if (concept.values[v.name] !== undefined && String(concept.values[v.name]) !== String(v.value)) {
+            if (concept.values[v.name] !== undefined &&
+                encodeVariableValue(v.type, concept.values[v.name]) !== encodeVariableValue(v.type, v.value)) {
                 count++;
             }
         });
@@ -131,6 +471,14 @@ export const ProjectHub: React.FC = () => {
         );
     }
 
+    // Values left over from variables a build update removed
+    const orphanedValues: Record<string, string[]> = Object.fromEntries(
+        (project.concepts || []).map(c => [
+            c.id,
+            getOrphanedValues(c, revisions.find(r => r.id === c.buildRevisionId)?.variables ?? project.variables)
+        ])
+    );
+
     return (
         <div style={{ padding: '40px', maxWidth: '1200px', margin: '0 auto' }}>
             <div style={{ marginBottom: '32px' }}>
@@ -180,9 +528,115 @@ export const ProjectHub: React.FC = () => {
                             Last modified: {new Date(project.lastModified).toLocaleDateString()}
                         </div>
                     </div>
+                    <div style={{ marginLeft: 'auto', display: 'flex', gap: '8px' }}>
+                        {previousBuildDate && (
+                            <button
+                                onClick={handleRollbackBuild}
+                                title={`Build replaced on ${new Date(previousBuildDate).toLocaleString()}`}
+                                style={{
+                                    backgroundColor: 'transparent',
+                                    color: 'var(--color-text-primary)',
+                                    border: '1px solid var(--color-border)',
+                                    padding: '8px 16px',
+                                    borderRadius: 'var(--radius-sm)',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '6px'
+                                }}
+                            >
+                                <RotateCcw size={16} />
+                                Roll Back Build
+                            </button>
+                        )}
+                        <button
+                            onClick={() => buildInputRef.current?.click()}
+                            style={{
+                                backgroundColor: 'var(--color-bg-tertiary)',
+                                color: 'var(--color-text-primary)',
+                                border: '1px solid var(--color-border)',
+                                padding: '8px 16px',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer',
+                                fontWeight: 500,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px'
+                            }}
+                        >
+                            <Upload size={16} />
+                            Update Build
+                        </button>
+                        <input
+                            ref={buildInputRef}
+                            type="file"
+                            accept=".zip"
+                            style={{ display: 'none' }}
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) handleBuildFile(file);
+                            }}
+                        />
+                    </div>
                 </div>
             </div>
 
+            {buildIssues && (
+                <ConfigIssuesDialog
+                    fileName={buildIssues.file.name}
+                    issues={buildIssues.issues}
+                    migratedFrom={buildIssues.parsed?.migratedFrom}
+                    onClose={() => setBuildIssues(null)}
+                    onImport={buildIssues.parsed ? () => reviewBuildMigration(buildIssues.file, buildIssues.parsed!) : undefined}
+                />
+            )}
+
+            {pendingConceptImport && (
+                <ConfigIssuesDialog
+                    fileName={pendingConceptImport.fileName}
+                    issues={pendingConceptImport.prepared.issues}
+                    onClose={() => setPendingConceptImport(null)}
+                    onImport={() => handleImportConcept(pendingConceptImport.prepared)}
+                />
+            )}
+
+            {pendingSheetImport && (
+                <ConfigIssuesDialog
+                    fileName={pendingSheetImport.fileName}
+                    issues={pendingSheetImport.result.issues}
+                    onClose={() => setPendingSheetImport(null)}
+                    onImport={() => handleApplySheet(pendingSheetImport.result)}
+                />
+            )}
+
+            {isGeneratorOpen && (
+                <VariantGeneratorDialog
+                    project={project}
+                    onClose={() => setIsGeneratorOpen(false)}
+                    onCreate={handleCreateVariants}
+                />
+            )}
+
+            {pendingBuild && (
+                <BuildMigrationDialog
+                    fileName={pendingBuild.file.name}
+                    report={pendingBuild.migration.report}
+                    isApplying={isApplyingBuild}
+                    onClose={() => setPendingBuild(null)}
+                    onApply={handleApplyBuild}
+                />
+            )}
+
+            <StoreUrlSettings project={project} onSave={handleSaveStoreUrls} />
+
+            <BuildHistoryPanel
+                revisions={revisions}
+                currentRevisionId={project.currentRevisionId}
+                concepts={project.concepts || []}
+                onRename={handleRenameRevision}
+            />
+
             <div style={{
                 backgroundColor: 'var(--color-bg-secondary)',
                 borderRadius: 'var(--radius-lg)',
@@ -197,26 +651,283 @@ export const ProjectHub: React.FC = () => {
                     alignItems: 'center'
                 }}>
                     <h2 style={{ fontSize: '20px', fontWeight: 600 }}>Concepts</h2>
-                    <button
-                        onClick={() => startCreate(null)}
-                        style={{
-                            backgroundColor: 'var(--color-accent)',
-                            color: 'white',
-                            border: 'none',
-                            padding: '8px 16px',
-                            borderRadius: 'var(--radius-sm)',
-                            cursor: 'pointer',
-                            fontWeight: 500,
-                            display: 'flex',
-                            alignItems: 'center',
-                            gap: '6px'
-                        }}
-                    >
-                        <Plus size={16} />
-                        New Concept
-                    </button>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                        <button
+                            onClick={() => setIsSheetOpen(!isSheetOpen)}
+                            style={{
+                                backgroundColor: 'var(--color-bg-tertiary)',
+                                color: 'var(--color-text-primary)',
+                                border: '1px solid var(--color-border)',
+                                padding: '8px 16px',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer',
+                                fontWeight: 500,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px'
+                            }}
+                        >
+                            <FileSpreadsheet size={16} />
+                            Spreadsheet
+                        </button>
+                        <button
+                            onClick={() => setIsBatchOpen(!isBatchOpen)}
+                            disabled={!project.concepts || project.concepts.length === 0}
+                            style={{
+                                backgroundColor: 'var(--color-bg-tertiary)',
+                                color: 'var(--color-text-primary)',
+                                border: '1px solid var(--color-border)',
+                                padding: '8px 16px',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer',
+                                fontWeight: 500,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px',
+                                opacity: project.concepts && project.concepts.length > 0 ? 1 : 0.5
+                            }}
+                        >
+                            <Package size={16} />
+                            Batch Export
+                        </button>
+                        <button
+                            onClick={() => navigate(`/project/${project.id}/compare?concepts=${(project.concepts || []).slice(0, 2).map(c => c.id).join(',')}`)}
+                            disabled={!project.concepts || project.concepts.length < 2}
+                            style={{
+                                backgroundColor: 'var(--color-bg-tertiary)',
+                                color: 'var(--color-text-primary)',
+                                border: '1px solid var(--color-border)',
+                                padding: '8px 16px',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer',
+                                fontWeight: 500,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px',
+                                opacity: project.concepts && project.concepts.length >= 2 ? 1 : 0.5
+                            }}
+                        >
+                            <Columns size={16} />
+                            Compare
+                        </button>
+                        <button
+                            onClick={() => setIsGeneratorOpen(true)}
+                            disabled={project.variables.length === 0}
+                            style={{
+                                backgroundColor: 'var(--color-bg-tertiary)',
+                                color: 'var(--color-text-primary)',
+                                border: '1px solid var(--color-border)',
+                                padding: '8px 16px',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer',
+                                fontWeight: 500,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px',
+                                opacity: project.variables.length > 0 ? 1 : 0.5
+                            }}
+                        >
+                            <Grid3x3 size={16} />
+                            Generate Variants
+                        </button>
+                        <button
+                            onClick={() => conceptInputRef.current?.click()}
+                            style={{
+                                backgroundColor: 'var(--color-bg-tertiary)',
+                                color: 'var(--color-text-primary)',
+                                border: '1px solid var(--color-border)',
+                                padding: '8px 16px',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer',
+                                fontWeight: 500,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px'
+                            }}
+                        >
+                            <FileInput size={16} />
+                            Import Concept
+                        </button>
+                        <input
+                            ref={conceptInputRef}
+                            type="file"
+                            accept=".json"
+                            style={{ display: 'none' }}
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) handleConceptFile(file);
+                            }}
+                        />
+                        <button
+                            onClick={() => startCreate(null)}
+                            style={{
+                                backgroundColor: 'var(--color-accent)',
+                                color: 'white',
+                                border: 'none',
+                                padding: '8px 16px',
+                                borderRadius: 'var(--radius-sm)',
+                                cursor: 'pointer',
+                                fontWeight: 500,
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px'
+                            }}
+                        >
+                            <Plus size={16} />
+                            New Concept
+                        </button>
+                    </div>
                 </div>
 
+                {isSheetOpen && (
+                    <div style={{
+                        padding: '24px',
+                        backgroundColor: 'var(--color-bg-tertiary)',
+                        borderBottom: '1px solid var(--color-border)'
+                    }}>
+                        <h3 style={{ fontSize: '16px', marginBottom: '8px' }}>Plan concepts in a spreadsheet</h3>
+                        <div style={{ fontSize: '13px', color: 'var(--color-text-secondary)', marginBottom: '16px' }}>
+                            One row per concept and one column per variable, with type, range and default rows at the top.
+                            Leave a cell empty to use the build default. Importing updates concepts matched by ID or name and creates the rest.
+                        </div>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            {(['xlsx', 'csv'] as SpreadsheetFormat[]).map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => handleExportSheet(format)}
+                                    style={{
+                                        backgroundColor: 'transparent',
+                                        color: 'var(--color-text-primary)',
+                                        border: '1px solid var(--color-border)',
+                                        padding: '8px 16px',
+                                        borderRadius: 'var(--radius-sm)',
+                                        cursor: 'pointer',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '6px'
+                                    }}
+                                >
+                                    <Download size={16} />
+                                    Export {format.toUpperCase()}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => sheetInputRef.current?.click()}
+                                style={{
+                                    backgroundColor: 'var(--color-accent)',
+                                    color: 'white',
+                                    border: 'none',
+                                    padding: '8px 16px',
+                                    borderRadius: 'var(--radius-sm)',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '6px'
+                                }}
+                            >
+                                <Upload size={16} />
+                                Import Sheet
+                            </button>
+                            <input
+                                ref={sheetInputRef}
+                                type="file"
+                                accept=".csv,.xlsx"
+                                style={{ display: 'none' }}
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) handleSheetFile(file);
+                                }}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {isBatchOpen && (
+                    <div style={{
+                        padding: '24px',
+                        backgroundColor: 'var(--color-bg-tertiary)',
+                        borderBottom: '1px solid var(--color-border)'
+                    }}>
+                        <h3 style={{ fontSize: '16px', marginBottom: '16px' }}>
+                            Export all {project.concepts.length} concepts
+                        </h3>
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', marginBottom: '16px' }}>
+                            {getNetworkAdapters().map(adapter => (
+                                <label
+                                    key={adapter.id}
+                                    style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', cursor: 'pointer' }}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={batchNetworks.includes(adapter.id)}
+                                        onChange={() => toggleBatchNetwork(adapter.id)}
+                                        disabled={!!batchProgress}
+                                    />
+                                    {adapter.label}
+                                </label>
+                            ))}
+                        </div>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: 'var(--color-text-secondary)', cursor: 'pointer', marginBottom: '16px' }}>
+                            <input
+                                type="checkbox"
+                                checked={batchAllowOverLimit}
+                                onChange={(e) => setBatchAllowOverLimit(e.target.checked)}
+                                disabled={!!batchProgress}
+                            />
+                            Include files over their network's size limit
+                        </label>
+
+                        {batchProgress ? (
+                            <div>
+                                <div style={{ fontSize: '13px', color: 'var(--color-text-secondary)', marginBottom: '8px' }}>
+                                    {batchProgress.done} / {batchProgress.total} · {batchProgress.label}
+                                </div>
+                                <div style={{ height: '6px', backgroundColor: 'var(--color-bg-primary)', borderRadius: '3px', overflow: 'hidden' }}>
+                                    <div style={{
+                                        height: '100%',
+                                        width: `${batchProgress.total ? (batchProgress.done / batchProgress.total) * 100 : 0}%`,
+                                        backgroundColor: 'var(--color-accent)',
+                                        transition: 'width 0.2s'
+                                    }} />
+                                </div>
+                            </div>
+                        ) : (
+                            <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+                                <button
+                                    onClick={() => setIsBatchOpen(false)}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: 'transparent',
+                                        border: '1px solid var(--color-border)',
+                                        color: 'var(--color-text-primary)',
+                                        borderRadius: 'var(--radius-sm)',
+                                        cursor: 'pointer'
+                                    }}
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleBatchExport}
+                                    disabled={batchNetworks.length === 0}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: 'var(--color-accent)',
+                                        border: 'none',
+                                        color: 'white',
+                                        borderRadius: 'var(--radius-sm)',
+                                        cursor: 'pointer',
+                                        opacity: batchNetworks.length > 0 ? 1 : 0.5
+                                    }}
+                                >
+                                    Export {project.concepts.length * batchNetworks.length} files
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {isCreating && (
                     <div style={{
                         padding: '24px',
@@ -333,6 +1044,25 @@ export const ProjectHub: React.FC = () => {
                                             >
                                                 <Copy size={16} />
                                             </button>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); handleExportConcept(concept); }}
+                                                title="Export concept file"
+                                                style={{
+                                                    background: 'transparent',
+                                                    border: 'none',
+                                                    cursor: 'pointer',
+                                                    padding: '6px',
+                                                    color: 'var(--color-text-secondary)',
+                                                    borderRadius: '4px',
+                                                    display: 'flex',
+                                                    alignItems: 'center',
+                                                    justifyContent: 'center'
+                                                }}
+                                                onMouseEnter={e => e.currentTarget.style.backgroundColor = 'var(--color-bg-tertiary)'}
+                                                onMouseLeave={e => e.currentTarget.style.backgroundColor = 'transparent'}
+                                            >
+                                                <Download size={16} />
+                                            </button>
                                             <button
                                                 onClick={(e) => { e.stopPropagation(); handleDeleteConcept(concept.id); }}
                                                 title="Delete"
@@ -364,6 +1094,30 @@ export const ProjectHub: React.FC = () => {
                                             <Edit3 size={14} />
                                             {getModifiedCount(concept)} variables modified
                                         </div>
+                                        {concept.buildRevisionId && concept.buildRevisionId !== project.currentRevisionId && (
+                                            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '4px' }}>
+                                                <Pin size={14} />
+                                                Pinned to {revisions.find(r => r.id === concept.buildRevisionId)?.label ?? 'a deleted build'}
+                                            </div>
+                                        )}
+                                        {concept.variant && (
+                                            <div
+                                                style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '4px' }}
+                                                title={Object.entries(concept.variant).map(([name, value]) => `${name} = ${JSON.stringify(value)}`).join('\n')}
+                                            >
+                                                <Grid3x3 size={14} />
+                                                Generated variant
+                                            </div>
+                                        )}
+                                        {orphanedValues[concept.id].length > 0 && (
+                                            <div
+                                                style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '4px', color: '#f59e0b' }}
+                                                title={orphanedValues[concept.id].join(', ')}
+                                            >
+                                                <AlertTriangle size={14} />
+                                                {orphanedValues[concept.id].length} orphaned values
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             ))}
@@ -371,6 +1125,14 @@ export const ProjectHub: React.FC = () => {
                     )}
                 </div>
             </div>
+
+            {batchResult && (
+                <BatchExportReportDialog
+                    result={batchResult}
+                    networkLabels={Object.fromEntries(getNetworkAdapters().map(a => [a.id, a.label]))}
+                    onClose={() => setBatchResult(null)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,401 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { HardDrive, Trash2, Folder, Package, Archive, Download, Upload } from 'lucide-react';
+import {
+    getStorageUsage,
+    getWorkspaceRecords,
+    purgePreviewCaches,
+    deleteOrphanedPreviews,
+    deleteBuildRevisions,
+    clearPreviewFiles,
+    collectGarbage,
+    type WorkspaceRestoreMode
+} from '../db';
+import type { StorageUsage, ProjectStorageUsage, BuildStorageUsage } from '../types';
+import { formatFileSize } from '../utils/AssetInliner';
+import { saveStream } from '../utils/DownloadUtils';
+import {
+    exportWorkspace,
+    readWorkspaceArchive,
+    findConflicts,
+    importWorkspace,
+    type ConflictStrategy,
+    type WorkspaceArchive,
+    type WorkspaceConflicts
+} from '../utils/WorkspaceBackup';
+import { WorkspaceImportDialog } from '../components/WorkspaceImportDialog';
+
+function isDeletable(build: BuildStorageUsage): boolean {
+    return !build.isCurrent && !build.isPinned && !build.isRollback;
+}
+
+export const Storage: React.FC = () => {
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [exportProgress, setExportProgress] = useState<number | null>(null);
+    const [pendingImport, setPendingImport] = useState<{ fileName: string; archive: WorkspaceArchive; conflicts: WorkspaceConflicts } | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        loadUsage();
+    }, []);
+
+    const loadUsage = async () => {
+        try {
+            const [storageUsage, storageEstimate] = await Promise.all([
+                getStorageUsage(),
+                navigator.storage?.estimate ? navigator.storage.estimate() : Promise.resolve(null)
+            ]);
+            setUsage(storageUsage);
+            setEstimate(storageEstimate);
+        } catch (err) {
+            console.error('Failed to load storage usage:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const runAction = async (action: () => Promise<unknown>, failure: string) => {
+        setBusy(true);
+        try {
+            await action();
+            await loadUsage();
+        } catch (err) {
+            console.error(failure, err);
+            alert(`${failure}: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handlePurgePreviews = () => {
+        if (!confirm('Delete all extracted previews? Previews open in another tab are kept. Projects re-extract their preview the next time a concept is opened.')) return;
+        runAction(purgePreviewCaches, 'Failed to purge preview caches');
+    };
+
+    const handleDeleteOrphans = () => {
+        runAction(deleteOrphanedPreviews, 'Failed to delete orphaned previews');
+    };
+
+    const handleClearPreview = (projectId: string) => {
+        runAction(async () => {
+            await clearPreviewFiles(projectId);
+            await collectGarbage();
+        }, 'Failed to clear preview');
+    };
+
+    const handleDeleteBuilds = (project: ProjectStorageUsage, builds: BuildStorageUsage[]) => {
+        const names = builds.map(b => b.label).join(', ');
+        if (!confirm(`Delete ${names} from ${project.name}? This cannot be undone.`)) return;
+        runAction(
+            () => deleteBuildRevisions(project.projectId, builds.map(b => b.revisionId)),
+            'Failed to delete builds'
+        );
+    };
+
+    const handleExportWorkspace = async () => {
+        setExportProgress(0);
+        try {
+            await saveStream(
+                `homa-workspace-${new Date().toISOString().slice(0, 10)}.zip`,
+                () => exportWorkspace(percent => setExportProgress(percent))
+            );
+        } catch (err) {
+            console.error('Failed to export workspace:', err);
+            alert(`Failed to export workspace: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setExportProgress(null);
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+
+        setBusy(true);
+        try {
+            const archive = await readWorkspaceArchive(file);
+            const conflicts = findConflicts(archive.records, await getWorkspaceRecords());
+            setPendingImport({ fileName: file.name, archive, conflicts });
+        } catch (err) {
+            console.error('Failed to read workspace backup:', err);
+            alert(`Failed to read workspace backup: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleConfirmImport = async (mode: WorkspaceRestoreMode, strategy: ConflictStrategy) => {
+        if (!pendingImport) return;
+        setIsImporting(true);
+        try {
+            const result = await importWorkspace(pendingImport.archive, mode, strategy);
+            setPendingImport(null);
+            await loadUsage();
+            alert(`Imported ${result.projects} project(s), ${result.folders} folder(s) and ${result.media} media file(s)` +
+                (result.skipped > 0 ? `, skipped ${result.skipped} existing item(s)` : ''));
+        } catch (err) {
+            console.error('Failed to import workspace:', err);
+            alert(`Failed to import workspace: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+                <div style={{ color: 'var(--color-text-secondary)' }}>Measuring storage...</div>
+            </div>
+        );
+    }
+
+    if (!usage) {
+        return (
+            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+                <div style={{ color: 'var(--color-error)' }}>Failed to load storage usage</div>
+            </div>
+        );
+    }
+
+    const previewSize = usage.projects.reduce((sum, p) => sum + p.previewSize, 0);
+    const orphanedFiles = usage.orphanedPreviews.reduce((sum, o) => sum + o.files, 0);
+    const orphanedSize = usage.orphanedPreviews.reduce((sum, o) => sum + o.size, 0);
+    const usedRatio = estimate?.quota ? Math.min(1, (estimate.usage ?? 0) / estimate.quota) : 0;
+
+    const cardStyle: React.CSSProperties = {
+        backgroundColor: 'var(--color-bg-secondary)',
+        borderRadius: 'var(--radius-lg)',
+        border: '1px solid var(--color-border)',
+        padding: '24px',
+        marginBottom: '24px'
+    };
+    const headingStyle: React.CSSProperties = {
+        fontSize: '16px',
+        fontWeight: 600,
+        margin: '0 0 16px 0',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px'
+    };
+    const mutedStyle: React.CSSProperties = { fontSize: '13px', color: 'var(--color-text-secondary)' };
+    const rowStyle: React.CSSProperties = {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '8px 0',
+        borderBottom: '1px solid var(--color-border)',
+        fontSize: '13px'
+    };
+    const buttonStyle: React.CSSProperties = {
+        padding: '6px 12px',
+        backgroundColor: 'transparent',
+        border: '1px solid var(--color-border)',
+        color: 'var(--color-text-primary)',
+        borderRadius: 'var(--radius-sm)',
+        cursor: busy ? 'not-allowed' : 'pointer',
+        opacity: busy ? 0.5 : 1,
+        fontSize: '13px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px'
+    };
+    const badgeStyle: React.CSSProperties = {
+        fontSize: '11px',
+        color: 'var(--color-accent)',
+        border: '1px solid var(--color-accent)',
+        borderRadius: '10px',
+        padding: '1px 6px'
+    };
+
+    return (
+        <div style={{ maxWidth: '960px' }}>
+            {/* Overview */}
+            <div style={cardStyle}>
+                <h2 style={headingStyle}><HardDrive size={16} /> Browser Storage</h2>
+                {estimate?.quota ? (
+                    <>
+                        <div style={{
+                            height: '8px',
+                            borderRadius: '4px',
+                            backgroundColor: 'var(--color-bg-tertiary)',
+                            overflow: 'hidden',
+                            marginBottom: '8px'
+                        }}>
+                            <div style={{
+                                width: `${usedRatio * 100}%`,
+                                height: '100%',
+                                background: usedRatio > 0.8 ? '#ef4444' : 'var(--gradient-primary)'
+                            }} />
+                        </div>
+                        <div style={mutedStyle}>
+                            {formatFileSize(estimate.usage ?? 0)} of {formatFileSize(estimate.quota)} used by this site
+                        </div>
+                    </>
+                ) : (
+                    <div style={mutedStyle}>This browser does not report its storage quota.</div>
+                )}
+                <div style={{ ...mutedStyle, marginTop: '8px' }}>
+                    {formatFileSize(usage.blobSize)} of builds, previews and media in {usage.blobCount} stored files.
+                    Files shared between builds, previews and media are stored once, so the sizes below can add up to more.
+                </div>
+            </div>
+
+            {/* Backup */}
+            <div style={cardStyle}>
+                <h2 style={headingStyle}><Archive size={16} /> Backup</h2>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+                    <div style={mutedStyle}>
+                        Everything is stored in this browser only. Export the workspace to keep a copy
+                        or to move it to another machine; previews are rebuilt after import.
+                    </div>
+                    <div style={{ display: 'flex', gap: '8px', flexShrink: 0 }}>
+                        <button
+                            onClick={handleExportWorkspace}
+                            disabled={busy || exportProgress !== null}
+                            style={buttonStyle}
+                        >
+                            <Download size={14} />
+                            {exportProgress !== null ? `Exporting ${Math.round(exportProgress)}%` : 'Export Workspace'}
+                        </button>
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={busy || exportProgress !== null}
+                            style={buttonStyle}
+                        >
+                            <Upload size={14} /> Import Workspace
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".zip"
+                            onChange={handleImportFile}
+                            style={{ display: 'none' }}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            {/* Cleanup */}
+            <div style={cardStyle}>
+                <h2 style={headingStyle}><Trash2 size={16} /> Cleanup</h2>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+                        <div>
+                            <div style={{ fontSize: '14px' }}>Preview caches</div>
+                            <div style={mutedStyle}>{formatFileSize(previewSize)} of extracted build files, rebuilt when a concept is opened</div>
+                        </div>
+                        <button onClick={handlePurgePreviews} disabled={busy || previewSize === 0} style={buttonStyle}>
+                            Purge
+                        </button>
+                    </div>
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+                        <div>
+                            <div style={{ fontSize: '14px' }}>Orphaned preview files</div>
+                            <div style={mutedStyle}>
+                                {orphanedFiles > 0
+                                    ? `${orphanedFiles} file(s), ${formatFileSize(orphanedSize)}, left by ${usage.orphanedPreviews.length} deleted project(s)`
+                                    : 'None found'}
+                            </div>
+                        </div>
+                        <button onClick={handleDeleteOrphans} disabled={busy || orphanedFiles === 0} style={buttonStyle}>
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Projects */}
+            <div style={cardStyle}>
+                <h2 style={headingStyle}><Package size={16} /> Projects</h2>
+                {usage.projects.length === 0 && <div style={mutedStyle}>No projects</div>}
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+                    {usage.projects.map(project => {
+                        const oldBuilds = project.builds.filter(isDeletable);
+                        const buildsSize = project.builds.reduce((sum, b) => sum + b.size, 0);
+                        return (
+                            <div key={project.projectId}>
+                                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', marginBottom: '4px' }}>
+                                    <div>
+                                        <div style={{ fontSize: '14px', fontWeight: 500 }}>{project.name}</div>
+                                        <div style={mutedStyle}>
+                                            {project.builds.length} build(s), {formatFileSize(buildsSize)}
+                                            {' · '}preview {project.previewFiles > 0 ? formatFileSize(project.previewSize) : 'not extracted'}
+                                        </div>
+                                    </div>
+                                    <div style={{ display: 'flex', gap: '8px' }}>
+                                        <button
+                                            onClick={() => handleClearPreview(project.projectId)}
+                                            disabled={busy || project.previewFiles === 0}
+                                            style={buttonStyle}
+                                        >
+                                            Clear Preview
+                                        </button>
+                                        <button
+                                            onClick={() => handleDeleteBuilds(project, oldBuilds)}
+                                            disabled={busy || oldBuilds.length === 0}
+                                            style={buttonStyle}
+                                        >
+                                            Delete Old Builds{oldBuilds.length > 0 ? ` (${oldBuilds.length})` : ''}
+                                        </button>
+                                    </div>
+                                </div>
+                                {project.builds.map(build => (
+                                    <div key={build.revisionId} style={{ ...rowStyle, paddingLeft: '12px' }}>
+                                        <span style={{ flex: 1 }}>{build.label}</span>
+                                        {build.isCurrent && <span style={badgeStyle}>current</span>}
+                                        {build.isPinned && <span style={badgeStyle}>pinned</span>}
+                                        {build.isRollback && <span style={badgeStyle}>rollback</span>}
+                                        <span style={{ ...mutedStyle, width: '160px' }}>{new Date(build.createdAt).toLocaleString()}</span>
+                                        <span style={{ width: '80px', textAlign: 'right' }}>{formatFileSize(build.size)}</span>
+                                        <button
+                                            onClick={() => handleDeleteBuilds(project, [build])}
+                                            disabled={busy || !isDeletable(build)}
+                                            title={isDeletable(build) ? 'Delete build' : 'In use'}
+                                            style={{
+                                                background: 'none',
+                                                border: 'none',
+                                                color: 'var(--color-text-secondary)',
+                                                cursor: busy || !isDeletable(build) ? 'not-allowed' : 'pointer',
+                                                opacity: isDeletable(build) ? 1 : 0.3
+                                            }}
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Media */}
+            <div style={cardStyle}>
+                <h2 style={headingStyle}><Folder size={16} /> Media Library</h2>
+                {usage.mediaFolders.length === 0 && <div style={mutedStyle}>No media</div>}
+                {usage.mediaFolders.map(folder => (
+                    <div key={folder.folderId ?? 'root'} style={rowStyle}>
+                        <span style={{ flex: 1 }}>{folder.name}</span>
+                        <span style={mutedStyle}>{folder.count} file(s)</span>
+                        <span style={{ width: '80px', textAlign: 'right' }}>{formatFileSize(folder.size)}</span>
+                    </div>
+                ))}
+            </div>
+
+            {pendingImport && (
+                <WorkspaceImportDialog
+                    fileName={pendingImport.fileName}
+                    manifest={pendingImport.archive.manifest}
+                    conflicts={pendingImport.conflicts}
+                    isImporting={isImporting}
+                    onClose={() => setPendingImport(null)}
+                    onImport={handleConfirmImport}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,8 @@
+/**
+ * The pure-JS Brotli decoder, typed for how the browser uses it:
+ * it takes any byte array (not only a Node Buffer) and returns a fresh buffer.
+ */
+declare module 'brotli/decompress' {
+    function decompress(buffer: Uint8Array, outputSize?: number): Uint8Array<ArrayBuffer>;
+    export = decompress;
+}
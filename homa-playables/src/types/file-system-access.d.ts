@@ -0,0 +1,16 @@
+/**
+ * The save dialog of the File System Access API, which TypeScript's DOM types leave out.
+ * Only Chromium browsers have it, so it is optional.
+ */
+interface SaveFilePickerOptions {
+    suggestedName?: string;
+    types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
+declare global {
+    interface Window {
+        showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+    }
+}
+
+export {};
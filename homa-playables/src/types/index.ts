@@ -6,6 +6,132 @@ export interface Project {
     buildUrl: string; // URL to the uploaded build (blob or hosted)
     variables: Variable[];
     concepts: Concept[]; // Persisted concepts
+    currentRevisionId?: string; // BuildRevision the project files hold
+    storeUrls?: StoreUrls; // Click-through targets for the CTA
+    networkStoreUrls?: Record<string, StoreUrls>; // Per-network overrides, keyed by adapter id
+    adOrientation?: AdOrientation; // Orientations the playable supports, both when unset
+    adSize?: AdSize; // Creative size declared to networks, defaults by orientation
+}
+
+/**
+ * Build metadata the Unity HomaBuildMenu writes into homa_config.json
+ */
+export interface HomaBuildInfo {
+    unityVersion: string;
+    pluginVersion: string;
+    buildDate: string;
+    buildSize?: number;
+    compressionFormat: string;
+}
+
+/**
+ * One uploaded Unity build of a project
+ */
+export interface BuildRevision {
+    id: string;
+    projectId: string;
+    label: string;
+    createdAt: number;
+    hash: string; // SHA-256 of the ZIP and its blob store key, identical uploads share a revision
+    size: number;
+    buildInfo?: HomaBuildInfo;
+    variables: Variable[];
+}
+
+/**
+ * A saved state of a concept. Restoring an old one adds a new revision.
+ */
+export interface ConceptRevision {
+    id: string;
+    projectId: string;
+    conceptId: string;
+    createdAt: number;
+    message?: string;
+    values: Record<string, unknown>;
+    restoredFromId?: string; // Revision whose values this one restored
+}
+
+/**
+ * State before a re-upload, kept for rollback
+ */
+export interface BuildSnapshot {
+    revisionId: string;
+    concepts: Concept[]; // Concept values before migration
+    migrated?: Record<string, Record<string, unknown>>; // Values the migration produced, by concept id
+    replacedAt: number;
+}
+
+/**
+ * Build extracted into a project's preview files, so reopening skips the ZIP
+ */
+export interface PreviewBuild {
+    projectId: string;
+    zipHash: string;
+    entryPoint: string;
+    variables: Variable[]; // Build defaults from its homa_config.json
+}
+
+/**
+ * Space used per project, build, preview cache and media folder.
+ * Content shared between them is stored once, so the parts can add up to more than the total.
+ */
+export interface BuildStorageUsage {
+    revisionId: string;
+    label: string;
+    createdAt: number;
+    size: number;
+    isCurrent: boolean;
+    isPinned: boolean; // Used by a concept
+    isRollback: boolean; // Restored by "Roll Back Build"
+}
+
+export interface ProjectStorageUsage {
+    projectId: string;
+    name: string;
+    builds: BuildStorageUsage[]; // Newest first
+    previewFiles: number;
+    previewSize: number;
+}
+
+export interface MediaFolderUsage {
+    folderId: string | null;
+    name: string;
+    count: number;
+    size: number;
+}
+
+export interface OrphanedPreview {
+    projectId: string; // Project that no longer exists
+    files: number;
+    size: number;
+}
+
+export interface StorageUsage {
+    projects: ProjectStorageUsage[];
+    mediaFolders: MediaFolderUsage[];
+    orphanedPreviews: OrphanedPreview[];
+    blobCount: number;
+    blobSize: number; // Bytes actually stored, shared content counted once
+}
+
+export interface StoreUrls {
+    ios?: string;
+    android?: string;
+}
+
+export type AdOrientation = 'portrait' | 'landscape' | 'both';
+
+export interface AdSize {
+    width: number;
+    height: number;
+}
+
+/**
+ * Creative size and orientation, for networks that declare them in the export
+ */
+export interface AdFormat {
+    orientation: AdOrientation;
+    size: AdSize;
 }
 
 export type VariableType = 'int' | 'float' | 'bool' | 'enum' | 'string' | 'vector3' | 'color';
@@ -21,6 +147,7 @@ export interface Variable {
     options?: string[]; // For enums
     section?: string; // Grouping
     order?: number; // Sorting order
+    requiresRestart?: boolean; // Only read when the game starts, changes reload the preview
 }
 
 export interface Concept {
@@ -31,6 +158,8 @@ export interface Concept {
     createdAt: number;
     updatedAt: number;
     values: Record<string, any>; // Map variable name to value
+    buildRevisionId?: string; // Pinned build, the project's current build when unset
+    variant?: Record<string, unknown>; // Axis values the variant generator made this concept from
 }
 
 export interface MediaFolder {
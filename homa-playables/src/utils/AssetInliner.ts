@@ -86,18 +86,10 @@ export async function inlineAllAssets(
 /**
  * Escape special regex characters in a string
  */
-function escapeRegex(str: string): string {
+export function escapeRegex(str: string): string {
     return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-/**
- * Validate file size against platform limits (5MB)
- */
-export function validateFileSize(sizeBytes: number): boolean {
-    const MAX_SIZE = 5 * 1024 * 1024; // 5MB
-    return sizeBytes <= MAX_SIZE;
-}
-
 /**
  * Format file size for display
  */
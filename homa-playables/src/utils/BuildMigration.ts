@@ -0,0 +1,307 @@
+import type { BuildSnapshot, Concept, Variable } from '../types';
+import { decodeVariableValue, encodeVariableValue } from './VariableCodec';
+
+/**
+ * Diff two builds' variable sets and carry concept values over to the new one
+ */
+
+export interface VariableRename {
+    from: string;
+    to: string;
+}
+
+export interface VariableTypeChange {
+    name: string;
+    from: string;
+    to: string;
+}
+
+export interface VariableRangeChange {
+    name: string;
+    from: { min?: number; max?: number; options?: string[] };
+    to: { min?: number; max?: number; options?: string[] };
+}
+
+export type ConceptValueChangeKind = 'renamed' | 'converted' | 'clamped' | 'reset' | 'orphaned';
+
+export interface ConceptValueChange {
+    variable: string; // Name in the new build (old name for orphaned values)
+    kind: ConceptValueChangeKind;
+    from: unknown;
+    to?: unknown; // Undefined when the value now falls back to the build default
+}
+
+export interface ConceptMigration {
+    conceptId: string;
+    conceptName: string;
+    changes: ConceptValueChange[];
+}
+
+export interface BuildMigrationReport {
+    added: string[];
+    removed: string[];
+    renamed: VariableRename[];
+    typeChanges: VariableTypeChange[];
+    rangeChanges: VariableRangeChange[];
+    concepts: ConceptMigration[]; // Only concepts with changes
+}
+
+export interface BuildMigrationResult {
+    report: BuildMigrationReport;
+    concepts: Concept[]; // Concepts with migrated values
+}
+
+export interface ConceptRollback {
+    conceptId: string;
+    conceptName: string;
+    reverted: string[]; // Variables set back to their value from before the upload
+    kept: string[]; // Variables the migration changed and that were edited since, left as they are
+}
+
+export interface BuildRollbackPlan {
+    concepts: Concept[]; // Current concepts with the migration's changes undone
+    rollbacks: ConceptRollback[]; // Only concepts with reverted or kept values
+}
+
+export interface BuildMigrationOptions {
+    inferRenames?: boolean; // Guess renames from names and orders, on by default
+    renames?: VariableRename[]; // Known renames, applied before any guess
+}
+
+const NUMERIC_TYPES = ['int', 'float'];
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Orders set explicitly and held by a single variable; most variables keep the default 0
+ */
+function uniqueOrders(variables: Variable[]): Set<number> {
+    const counts = new Map<number, number>();
+    for (const variable of variables) {
+        if (variable.order) counts.set(variable.order, (counts.get(variable.order) ?? 0) + 1);
+    }
+    return new Set([...counts].filter(([, count]) => count === 1).map(([order]) => order));
+}
+
+/**
+ * A removed and an added variable are treated as a rename when they share
+ * type and section, and either their normalized name matches or they hold
+ * the same non-default order, unique in both builds
+ */
+function detectRenames(removed: Variable[], added: Variable[], oldVariables: Variable[], newVariables: Variable[]): VariableRename[] {
+    const renames: VariableRename[] = [];
+    const used = new Set<string>();
+    const oldOrders = uniqueOrders(oldVariables);
+    const newOrders = uniqueOrders(newVariables);
+    const sameSlot = (oldVar: Variable, newVar: Variable) =>
+        oldVar.order !== undefined && oldVar.order === newVar.order && oldOrders.has(oldVar.order) && newOrders.has(newVar.order);
+
+    for (const oldVar of removed) {
+        const candidates = added.filter(newVar =>
+            !used.has(newVar.name) &&
+            newVar.type === oldVar.type &&
+            (newVar.section || '') === (oldVar.section || '')
+        );
+        const match = candidates.find(newVar => normalizeName(newVar.name) === normalizeName(oldVar.name)) ??
+            candidates.find(newVar => sameSlot(oldVar, newVar));
+        if (match) {
+            used.add(match.name);
+            renames.push({ from: oldVar.name, to: match.name });
+        }
+    }
+    return renames;
+}
+
+function hasRange(variable: Variable): boolean {
+    return variable.min !== undefined && variable.max !== undefined && variable.min < variable.max;
+}
+
+function sameOptions(a?: string[], b?: string[]): boolean {
+    return (a || []).join('\n') === (b || []).join('\n');
+}
+
+/**
+ * Convert a value to the new variable definition.
+ * The value is undefined when it cannot be kept (the concept then uses the build default).
+ */
+function convertValue(value: unknown, oldType: string, newVar: Variable): { value?: unknown; kind?: ConceptValueChangeKind } {
+    let converted: unknown = value;
+    let kind: ConceptValueChangeKind | undefined;
+
+    if (oldType !== newVar.type) {
+        const compatible =
+            (NUMERIC_TYPES.includes(oldType) && NUMERIC_TYPES.includes(newVar.type)) ||
+            newVar.type === 'string' ||
+            (oldType === 'string' && newVar.type === 'enum');
+        if (!compatible) return { kind: 'reset' };
+
+        converted = decodeVariableValue(newVar.type, encodeVariableValue(oldType, value));
+        kind = 'converted';
+    }
+
+    if (newVar.type === 'enum' && newVar.options && !newVar.options.includes(String(converted))) {
+        return { kind: 'reset' };
+    }
+
+    if (NUMERIC_TYPES.includes(newVar.type) && hasRange(newVar)) {
+        const n = Number(decodeVariableValue(newVar.type, converted));
+        const clamped = Math.min(newVar.max!, Math.max(newVar.min!, n));
+        if (clamped !== n) {
+            return { value: clamped, kind: 'clamped' };
+        }
+    }
+
+    return { value: converted, kind };
+}
+
+export function migrateBuild(
+    oldVariables: Variable[],
+    newVariables: Variable[],
+    concepts: Concept[],
+    { inferRenames = true, renames = [] }: BuildMigrationOptions = {}
+): BuildMigrationResult {
+    const oldByName = new Map(oldVariables.map(v => [v.name, v]));
+    const newByName = new Map(newVariables.map(v => [v.name, v]));
+
+    const removedVars = oldVariables.filter(v => !newByName.has(v.name));
+    const addedVars = newVariables.filter(v => !oldByName.has(v.name));
+    const explicit = renames.filter(r =>
+        removedVars.some(v => v.name === r.from) && addedVars.some(v => v.name === r.to)
+    );
+    const inferred = inferRenames
+        ? detectRenames(
+            removedVars.filter(v => !explicit.some(r => r.from === v.name)),
+            addedVars.filter(v => !explicit.some(r => r.to === v.name)),
+            oldVariables,
+            newVariables
+        )
+        : [];
+    const renamed = [...explicit, ...inferred];
+    const renamedFrom = new Map(renamed.map(r => [r.from, r.to]));
+    const renamedTo = new Set(renamed.map(r => r.to));
+
+    // Pairs of [old, new] definitions for every variable present in both builds
+    const pairs: [Variable, Variable][] = [];
+    for (const oldVar of oldVariables) {
+        const newName = renamedFrom.get(oldVar.name) ?? oldVar.name;
+        const newVar = newByName.get(newName);
+        if (newVar) pairs.push([oldVar, newVar]);
+    }
+
+    const typeChanges: VariableTypeChange[] = [];
+    const rangeChanges: VariableRangeChange[] = [];
+    for (const [oldVar, newVar] of pairs) {
+        if (oldVar.type !== newVar.type) {
+            typeChanges.push({ name: newVar.name, from: oldVar.type, to: newVar.type });
+        }
+        if (oldVar.min !== newVar.min || oldVar.max !== newVar.max || !sameOptions(oldVar.options, newVar.options)) {
+            rangeChanges.push({
+                name: newVar.name,
+                from: { min: oldVar.min, max: oldVar.max, options: oldVar.options },
+                to: { min: newVar.min, max: newVar.max, options: newVar.options }
+            });
+        }
+    }
+
+    const conceptReports: ConceptMigration[] = [];
+    const migratedConcepts = concepts.map(concept => {
+        const values: Record<string, unknown> = {};
+        const changes: ConceptValueChange[] = [];
+
+        for (const [name, value] of Object.entries(concept.values)) {
+            const oldVar = oldByName.get(name);
+            const newName = renamedFrom.get(name) ?? name;
+            const newVar = newByName.get(newName);
+
+            if (!newVar) {
+                // Kept so a rollback or a later rename can still recover it
+                values[name] = value;
+                changes.push({ variable: name, kind: 'orphaned', from: value });
+                continue;
+            }
+
+            // A value orphaned by an earlier build is recovered when its variable comes back
+            const result = convertValue(value, oldVar?.type ?? newVar.type, newVar);
+            if (result.value !== undefined) {
+                values[newName] = result.value;
+            }
+            if (result.kind) {
+                changes.push({ variable: newName, kind: result.kind, from: value, to: result.value });
+            } else if (newName !== name) {
+                changes.push({ variable: newName, kind: 'renamed', from: name, to: newName });
+            }
+        }
+
+        if (changes.length > 0) {
+            conceptReports.push({ conceptId: concept.id, conceptName: concept.name, changes });
+        }
+        return { ...concept, values };
+    });
+
+    return {
+        report: {
+            added: addedVars.filter(v => !renamedTo.has(v.name)).map(v => v.name),
+            removed: removedVars.filter(v => !renamedFrom.has(v.name)).map(v => v.name),
+            renamed,
+            typeChanges,
+            rangeChanges,
+            concepts: conceptReports
+        },
+        concepts: migratedConcepts
+    };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Undo what a build migration did to concept values, keyed by concept id.
+ * Values edited since the upload and concepts created since are kept,
+ * concepts deleted since stay deleted.
+ */
+export function planBuildRollback(concepts: Concept[], previous: BuildSnapshot): BuildRollbackPlan {
+    const before = new Map(previous.concepts.map(c => [c.id, c.values]));
+    const rollbacks: ConceptRollback[] = [];
+
+    const rolledBack = concepts.map(concept => {
+        const oldValues = before.get(concept.id);
+        if (!oldValues) return concept;
+        // Snapshots from before migrated values were recorded: assume nothing was edited since
+        const migrated = previous.migrated?.[concept.id] ?? concept.values;
+
+        const values = { ...concept.values };
+        const reverted: string[] = [];
+        const kept: string[] = [];
+        for (const name of new Set([...Object.keys(oldValues), ...Object.keys(migrated)])) {
+            if (sameValue(oldValues[name], migrated[name])) continue; // Not touched by the migration
+            if (!sameValue(concept.values[name], migrated[name])) {
+                kept.push(name);
+                continue;
+            }
+            if (oldValues[name] === undefined) {
+                delete values[name];
+            } else {
+                values[name] = oldValues[name];
+            }
+            reverted.push(name);
+        }
+
+        if (reverted.length > 0 || kept.length > 0) {
+            rollbacks.push({ conceptId: concept.id, conceptName: concept.name, reverted, kept });
+        }
+        return reverted.length > 0 ? { ...concept, values } : concept;
+    });
+
+    return { concepts: rolledBack, rollbacks };
+}
+
+/**
+ * Concept values that no longer match a variable of the build
+ */
+export function getOrphanedValues(concept: Concept, variables: Variable[]): string[] {
+    const names = new Set(variables.map(v => v.name));
+    return Object.keys(concept.values).filter(name => !names.has(name));
+}
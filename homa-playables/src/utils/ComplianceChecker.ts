@@ -0,0 +1,139 @@
+import JSZip from 'jszip';
+
+import type { NetworkAdapter } from './networks/NetworkAdapter';
+
+/**
+ * Static checks for common playable ad spec violations
+ */
+
+export type ComplianceRuleId =
+    | 'external-request'
+    | 'mraid-missing'
+    | 'window-open'
+    | 'audio-autoplay'
+    | 'viewport-missing'
+    | 'alert-call';
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+export interface ComplianceIssue {
+    ruleId: ComplianceRuleId;
+    severity: ComplianceSeverity;
+    message: string;
+    file?: string;
+    excerpt?: string;
+}
+
+export interface ComplianceOptions {
+    requiresMraid?: boolean; // Network serves the ad inside an MRAID container
+    allowedUrls?: string[]; // Remote scripts the network itself requires
+}
+
+// Attributes/calls that make the browser load something, not plain URL strings
+const REMOTE_LOAD_PATTERNS = [
+    /\b(?:src|href)\s*=\s*["']((?:https?:)?\/\/[^"']+)["']/gi,
+    /url\(\s*["']?((?:https?:)?\/\/[^"')]+)["']?\s*\)/gi,
+    /\b(?:fetch|importScripts|import)\s*\(\s*["'`]((?:https?:)?\/\/[^"'`]+)["'`]/gi,
+    /\.open\(\s*["'][A-Z]+["']\s*,\s*["'`]((?:https?:)?\/\/[^"'`]+)["'`]/gi,
+];
+
+/**
+ * List remote URLs a text file would load at runtime
+ */
+export function findRemoteLoads(text: string, allowedUrls: string[] = []): string[] {
+    const urls: string[] = [];
+    for (const pattern of REMOTE_LOAD_PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+            if (!allowedUrls.includes(match[1])) urls.push(match[1]);
+        }
+    }
+    return urls;
+}
+
+/**
+ * Short snippet around a match, for display
+ */
+function excerptAt(text: string, index: number): string {
+    return text.slice(Math.max(0, index - 20), index + 40).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Run every rule over one HTML document
+ */
+export function checkCompliance(html: string, options: ComplianceOptions = {}): ComplianceIssue[] {
+    const issues: ComplianceIssue[] = [];
+
+    for (const url of findRemoteLoads(html, options.allowedUrls)) {
+        issues.push({
+            ruleId: 'external-request',
+            severity: 'error',
+            message: `Loads a remote resource: ${url}`
+        });
+    }
+
+    if (options.requiresMraid && !/mraid\.js/.test(html) && !/typeof\s+mraid\b/.test(html)) {
+        issues.push({
+            ruleId: 'mraid-missing',
+            severity: 'error',
+            message: 'No mraid.js reference or MRAID availability check'
+        });
+    }
+
+    for (const match of html.matchAll(/\bwindow\.open\s*\(/g)) {
+        issues.push({
+            ruleId: 'window-open',
+            severity: options.requiresMraid ? 'error' : 'warning',
+            message: 'window.open() used for navigation, use the network click-through API (e.g. mraid.open)',
+            excerpt: excerptAt(html, match.index)
+        });
+    }
+
+    for (const match of html.matchAll(/<(audio|video)\b[^>]*>/gi)) {
+        const tag = match[0];
+        if (/\bautoplay\b/i.test(tag) && !/\bmuted\b/i.test(tag)) {
+            issues.push({
+                ruleId: 'audio-autoplay',
+                severity: 'error',
+                message: `<${match[1]}> autoplays with sound before the first user interaction`,
+                excerpt: excerptAt(html, match.index)
+            });
+        }
+    }
+
+    if (!/<meta[^>]+name=["']viewport["']/i.test(html)) {
+        issues.push({
+            ruleId: 'viewport-missing',
+            severity: 'warning',
+            message: 'Missing <meta name="viewport">'
+        });
+    }
+
+    for (const match of html.matchAll(/(?<![\w.])alert\s*\(/g)) {
+        issues.push({
+            ruleId: 'alert-call',
+            severity: 'warning',
+            message: 'alert() blocks the ad container, log errors instead',
+            excerpt: excerptAt(html, match.index)
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Check every HTML document of an export with the adapter's rules
+ */
+export async function checkExportCompliance(adapter: NetworkAdapter, result: Blob): Promise<ComplianceIssue[]> {
+    const options = adapter.compliance || {};
+
+    if (adapter.format === 'html') {
+        return checkCompliance(await result.text(), options);
+    }
+
+    const zip = await JSZip.loadAsync(result);
+    const htmlEntries = Object.values(zip.files).filter(entry => !entry.dir && entry.name.endsWith('.html'));
+    const issues = await Promise.all(htmlEntries.map(async entry =>
+        checkCompliance(await entry.async('string'), options).map(issue => ({ ...issue, file: entry.name }))
+    ));
+    return issues.flat();
+}
@@ -0,0 +1,47 @@
+import brotliDecompress from 'brotli/decompress';
+
+/**
+ * Unity WebGL build compression helpers (Gzip, Brotli or none)
+ */
+
+export type BuildCompression = 'gzip' | 'brotli' | 'none';
+
+export function detectCompression(path: string): BuildCompression {
+    if (path.endsWith('.gz')) return 'gzip';
+    if (path.endsWith('.br')) return 'brotli';
+    return 'none';
+}
+
+/**
+ * Decompress a Blob. Brotli uses a pure-JS decoder since
+ * DecompressionStream does not support it in every browser.
+ */
+export async function decompressBlob(blob: Blob, compression: BuildCompression): Promise<Blob> {
+    if (compression === 'gzip') {
+        const ds = new DecompressionStream('gzip');
+        return new Response(blob.stream().pipeThrough(ds)).blob();
+    }
+
+    if (compression === 'brotli') {
+        const decoded = brotliDecompress(new Uint8Array(await blob.arrayBuffer()));
+        return new Blob([decoded]);
+    }
+
+    return blob;
+}
+
+/**
+ * Gzip a Blob with the native CompressionStream
+ */
+export function gzipBlob(blob: Blob): Promise<Blob> {
+    const cs = new CompressionStream('gzip');
+    return new Response(blob.stream().pipeThrough(cs)).blob();
+}
+
+/**
+ * Re-encode any build file as Gzip (no-op when it already is)
+ */
+export async function toGzip(blob: Blob, compression: BuildCompression): Promise<Blob> {
+    if (compression === 'gzip') return blob;
+    return gzipBlob(await decompressBlob(blob, compression));
+}
@@ -0,0 +1,60 @@
+import type { Variable } from '../types';
+import { encodeVariableValue } from './VariableCodec';
+
+/**
+ * Value differences between two saved states of a concept,
+ * grouped by inspector section
+ */
+
+export interface ConceptValueChange {
+    name: string;
+    type: string;
+    from: unknown; // Undefined when that state used the build default
+    to: unknown;
+}
+
+export interface ConceptSectionDiff {
+    section: string;
+    changes: ConceptValueChange[];
+}
+
+const DEFAULT_SECTION = 'Default';
+const UNKNOWN_SECTION = 'Not in this build';
+
+function sectionRank(section: string): number {
+    if (section === DEFAULT_SECTION) return 0;
+    if (section === UNKNOWN_SECTION) return 2;
+    return 1;
+}
+
+export function diffConceptValues(
+    variables: Variable[],
+    from: Record<string, unknown>,
+    to: Record<string, unknown>
+): ConceptSectionDiff[] {
+    const byName = new Map(variables.map(v => [v.name, v]));
+    const names = new Set([...variables.map(v => v.name), ...Object.keys(from), ...Object.keys(to)]);
+    const sections = new Map<string, ConceptValueChange[]>();
+
+    for (const name of names) {
+        const variable = byName.get(name);
+        const type = variable?.type ?? 'string';
+        const encode = (value: unknown) => value === undefined ? undefined : encodeVariableValue(type, value);
+        if (encode(from[name]) === encode(to[name])) continue;
+
+        const section = variable ? variable.section || DEFAULT_SECTION : UNKNOWN_SECTION;
+        const changes = sections.get(section) ?? [];
+        changes.push({ name, type, from: from[name], to: to[name] });
+        sections.set(section, changes);
+    }
+
+    // Same order as the inspector
+    return [...sections]
+        .sort(([a], [b]) => sectionRank(a) - sectionRank(b) || a.localeCompare(b))
+        .map(([section, changes]) => ({
+            section,
+            changes: changes.sort((a, b) =>
+                (byName.get(a.name)?.order ?? 0) - (byName.get(b.name)?.order ?? 0) || a.name.localeCompare(b.name)
+            )
+        }));
+}
@@ -0,0 +1,284 @@
+import type { Concept, MediaItem, Project, Variable } from '../types';
+import { findMediaByName, getAllMediaRecords, saveMedia } from '../db';
+import { migrateBuild, type VariableRename } from './BuildMigration';
+import type { ConfigIssue } from './ConfigSchema';
+import { hashBlob } from './HashUtils';
+import { decodeVariableValue } from './VariableCodec';
+
+/**
+ * Portable .homaconcept.json: one concept's values, a fingerprint of the
+ * variable schema it was made against and the media its asset variables use
+ */
+
+export const CONCEPT_FILE_FORMAT = 'homa-concept';
+export const CONCEPT_FILE_VERSION = 1;
+export const CONCEPT_FILE_EXTENSION = '.homaconcept.json';
+
+export const ASSET_PATH_PREFIX = 'assets/'; // Asset values are preview paths, see Editor.handleAssetSelect
+
+export interface ConceptFileVariable {
+    name: string;
+    type: string;
+    min?: number;
+    max?: number;
+    options?: string[];
+    section?: string;
+    order?: number;
+}
+
+export interface ConceptFileMedia {
+    name: string;
+    type: MediaItem['type'];
+    hash: string;
+    dataUrl: string;
+}
+
+export interface ConceptFile {
+    format: typeof CONCEPT_FILE_FORMAT;
+    version: number;
+    exportedAt: string;
+    sourceProject: string;
+    concept: {
+        name: string;
+        description?: string;
+        values: Record<string, unknown>;
+    };
+    schema: {
+        fingerprint: string;
+        variables: ConceptFileVariable[];
+    };
+    media: ConceptFileMedia[];
+}
+
+export interface ConceptImport {
+    concept: Concept;
+    media: ConceptFileMedia[]; // Verified media to add to the library
+    issues: ConfigIssue[];
+    schemaMatches: boolean;
+}
+
+export function isAssetVariable(variable: Pick<Variable, 'type'>): boolean {
+    return String(variable.type).startsWith('Asset:');
+}
+
+function mediaTypeOf(blob: Blob): MediaItem['type'] {
+    if (blob.type.startsWith('video/')) return 'video';
+    if (blob.type.startsWith('audio/')) return 'audio';
+    return 'image';
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Hash of the variable names and types (and enum options), independent of order.
+ * Ranges and defaults are left out: values still fit when only those change.
+ */
+export async function schemaFingerprint(variables: Pick<Variable, 'name' | 'type' | 'options'>[]): Promise<string> {
+    const canonical = variables
+        .map(v => [v.name, v.type, v.type === 'enum' ? v.options ?? [] : []])
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    return hashBlob(new Blob([JSON.stringify(canonical)]));
+}
+
+/**
+ * Serialize a concept against the variables of its build
+ */
+export async function exportConceptFile(project: Project, concept: Concept, variables: Variable[]): Promise<Blob> {
+    const media: ConceptFileMedia[] = [];
+    for (const variable of variables.filter(isAssetVariable)) {
+        const path = concept.values[variable.name];
+        if (typeof path !== 'string' || !path.startsWith(ASSET_PATH_PREFIX)) continue;
+
+        const name = path.slice(ASSET_PATH_PREFIX.length);
+        const blob = (await findMediaByName(name))?.blob;
+        if (!blob) {
+            console.warn(`[ConceptFile] Media ${name} of ${variable.name} not found, left out`);
+            continue;
+        }
+        media.push({ name, type: mediaTypeOf(blob), hash: await hashBlob(blob), dataUrl: await blobToDataUrl(blob) });
+    }
+
+    const file: ConceptFile = {
+        format: CONCEPT_FILE_FORMAT,
+        version: CONCEPT_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        sourceProject: project.name,
+        concept: {
+            name: concept.name,
+            description: concept.description,
+            values: concept.values
+        },
+        schema: {
+            fingerprint: await schemaFingerprint(variables),
+            variables: variables.map(v => ({
+                name: v.name,
+                type: v.type,
+                min: v.min,
+                max: v.max,
+                options: v.options,
+                section: v.section,
+                order: v.order
+            }))
+        },
+        media
+    };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Parse a .homaconcept.json, throwing when it is not one
+ */
+export function readConceptFile(text: string): ConceptFile {
+    let json: Partial<ConceptFile>;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    if (json?.format !== CONCEPT_FILE_FORMAT) throw new Error('Not a concept file');
+    if (typeof json.version !== 'number' || json.version > CONCEPT_FILE_VERSION) {
+        throw new Error(`Concept file version ${json.version} is newer than this tool supports (${CONCEPT_FILE_VERSION})`);
+    }
+    if (typeof json.concept?.name !== 'string' || typeof json.concept.values !== 'object' || json.concept.values === null) {
+        throw new Error('Concept file has no concept name or values');
+    }
+    if (!Array.isArray(json.schema?.variables)) throw new Error('Concept file has no variable schema');
+
+    return { ...json, media: Array.isArray(json.media) ? json.media : [] } as ConceptFile;
+}
+
+/**
+ * Match a concept file to a project's variables: values are carried over the way
+ * a build update would (conversion, clamping) and mismatches are reported.
+ * Variables of another project are only matched by name or a given rename, never guessed.
+ */
+export async function prepareConceptImport(file: ConceptFile, project: Project, renames: VariableRename[] = []): Promise<ConceptImport> {
+    const issues: ConfigIssue[] = [];
+    const schemaMatches = file.schema.fingerprint === await schemaFingerprint(project.variables);
+    if (!schemaMatches) {
+        issues.push({
+            severity: 'warning',
+            path: 'schema',
+            message: `Made for a different variable set (${file.sourceProject || 'unknown project'}), values were matched to this project's variables`
+        });
+    }
+
+    const sourceVariables = file.schema.variables.map(v => ({ ...v, value: undefined, defaultValue: undefined }) as Variable);
+    const now = Date.now();
+    const draft: Concept = {
+        id: crypto.randomUUID(),
+        projectId: project.id,
+        name: (project.concepts || []).some(c => c.name === file.concept.name)
+            ? `${file.concept.name} (imported)`
+            : file.concept.name,
+        description: file.concept.description,
+        createdAt: now,
+        updatedAt: now,
+        values: file.concept.values
+    };
+
+    const { report, concepts: [migrated] } = migrateBuild(sourceVariables, project.variables, [draft], { inferRenames: false, renames });
+    const byName = new Map(project.variables.map(v => [v.name, v]));
+    const values: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(migrated.values)) {
+        const variable = byName.get(name);
+        if (variable) values[name] = decodeVariableValue(variable.type, value);
+    }
+
+    for (const change of report.concepts[0]?.changes ?? []) {
+        const message = {
+            orphaned: 'Not in this project, ignored',
+            renamed: `Matched to ${change.to}`,
+            converted: `Converted to ${byName.get(change.variable)?.type}`,
+            clamped: `Clamped to ${change.to}`,
+            reset: 'Not valid for this variable, the default is used'
+        }[change.kind];
+        issues.push({ severity: 'warning', path: change.kind === 'renamed' ? String(change.from) : change.variable, message });
+    }
+
+    // Media must be complete and unmodified to be imported
+    const media: ConceptFileMedia[] = [];
+    for (const entry of file.media) {
+        try {
+            const blob = await (await fetch(entry.dataUrl)).blob();
+            if (await hashBlob(blob) !== entry.hash) throw new Error('checksum mismatch');
+            media.push(entry);
+        } catch (err) {
+            issues.push({ severity: 'warning', path: entry.name, message: `Media is corrupted and was skipped (${err instanceof Error ? err.message : String(err)})` });
+        }
+    }
+    for (const variable of project.variables.filter(isAssetVariable)) {
+        const path = values[variable.name];
+        if (typeof path === 'string' && path.startsWith(ASSET_PATH_PREFIX) &&
+            !media.some(m => ASSET_PATH_PREFIX + m.name === path)) {
+            issues.push({ severity: 'warning', path: variable.name, message: `Media ${path.slice(ASSET_PATH_PREFIX.length)} is not in the file` });
+        }
+    }
+
+    return { concept: { ...draft, values }, media, issues, schemaMatches };
+}
+
+/**
+ * "hero.png" -> "hero (2).png", the first numbered name not taken yet
+ */
+function uniqueMediaName(name: string, taken: Set<string>): string {
+    const dot = name.lastIndexOf('.');
+    const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    for (let n = 2; ; n++) {
+        const candidate = `${stem} (${n})${extension}`;
+        if (!taken.has(candidate)) return candidate;
+    }
+}
+
+/**
+ * Add the concept's media to the library; previews pick it up from there by name.
+ * Media already in the library with the same content is reused, and media whose name
+ * is taken by different content is saved under a numbered name.
+ * Returns the concept with its asset values pointing at the names used.
+ */
+export async function importConceptMedia(concept: Concept, media: ConceptFileMedia[]): Promise<Concept> {
+    const records = await getAllMediaRecords();
+    // Previews resolve a name to the first item that has it, see findMediaByName
+    const resolve = (name: string) => records.find(m => m.name === name);
+    const renamed = new Map<string, string>();
+
+    for (const entry of media) {
+        if (resolve(entry.name)?.blobHash === entry.hash) continue;
+
+        const sameContent = records.find(m => m.blobHash === entry.hash && resolve(m.name) === m);
+        if (sameContent) {
+            renamed.set(entry.name, sameContent.name);
+            continue;
+        }
+
+        const name = resolve(entry.name) ? uniqueMediaName(entry.name, new Set(records.map(m => m.name))) : entry.name;
+        const blob = await (await fetch(entry.dataUrl)).blob();
+        const item = {
+            id: crypto.randomUUID(),
+            name,
+            type: entry.type,
+            folderId: null,
+            createdAt: Date.now(),
+            size: blob.size
+        };
+        await saveMedia({ ...item, blob });
+        records.push({ ...item, blobHash: entry.hash });
+        if (name !== entry.name) renamed.set(entry.name, name);
+    }
+
+    const values = Object.fromEntries(Object.entries(concept.values).map(([variable, value]) => {
+        const name = typeof value === 'string' && value.startsWith(ASSET_PATH_PREFIX)
+            ? renamed.get(value.slice(ASSET_PATH_PREFIX.length))
+            : undefined;
+        return [variable, name ? ASSET_PATH_PREFIX + name : value];
+    }));
+    return { ...concept, values };
+}
@@ -0,0 +1,154 @@
+import type { Concept, Project, Variable } from '../types';
+import type { ConfigIssue } from './ConfigSchema';
+import type { Table } from './SpreadsheetUtils';
+import { decodeVariableValue, formatVariableText, validateVariableText } from './VariableCodec';
+
+/**
+ * Concepts as a table: one row per concept, one column per variable.
+ * Rows starting with "#" describe the variables and are skipped on import.
+ *
+ *   Concept  | ID   | Speed  | Mode
+ *   #type    |      | float  | enum
+ *   #range   |      | 0..10  | Easy|Hard
+ *   #default |      | 5      | Easy
+ *   Fast     | 1f.. | 9.5    | Hard
+ *
+ * Empty cells mean the concept uses the build default. The columns are the
+ * current build's variables, so concepts pinned to another build are left out.
+ */
+
+const NAME_HEADER = 'Concept';
+const ID_HEADER = 'ID';
+const META_PREFIX = '#';
+
+export interface ConceptSheetImport {
+    concepts: Concept[]; // Every concept of the project after the import
+    created: number;
+    updated: number;
+    issues: ConfigIssue[];
+}
+
+function formatCell(variable: Variable, value: unknown): string {
+    return value === undefined || value === null ? '' : formatVariableText(variable.type, value);
+}
+
+function formatRange(variable: Variable): string {
+    if (variable.type === 'enum') return (variable.options || []).join('|');
+    if (variable.min !== undefined && variable.max !== undefined) return `${variable.min}..${variable.max}`;
+    return '';
+}
+
+/**
+ * Concepts pinned to a build other than the current one, whose variables differ from the sheet's
+ */
+export function getPinnedConcepts(project: Project): Concept[] {
+    return (project.concepts || []).filter(c => c.buildRevisionId && c.buildRevisionId !== project.currentRevisionId);
+}
+
+export function conceptsToTable(project: Project): Table {
+    const pinned = new Set(getPinnedConcepts(project));
+    const concepts = (project.concepts || []).filter(c => !pinned.has(c));
+    const variables = project.variables;
+    return [
+        [NAME_HEADER, ID_HEADER, ...variables.map(v => v.name)],
+        [`${META_PREFIX}type`, '', ...variables.map(v => v.type)],
+        [`${META_PREFIX}range`, '', ...variables.map(formatRange)],
+        [`${META_PREFIX}default`, '', ...variables.map(v => formatCell(v, v.defaultValue ?? v.value))],
+        ...concepts.map(c => [c.name, c.id, ...variables.map(v => formatCell(v, c.values[v.name]))])
+    ];
+}
+
+/**
+ * Create or update concepts from an edited table. Rows match an existing
+ * concept by ID, then by name; other rows become new concepts.
+ */
+export function tableToConcepts(table: Table, project: Project): ConceptSheetImport {
+    const issues: ConfigIssue[] = [];
+    const headerIndex = table.findIndex(row => row[0]?.trim().toLowerCase() === NAME_HEADER.toLowerCase());
+    if (headerIndex === -1) {
+        throw new Error(`No header row, the first column must be titled "${NAME_HEADER}"`);
+    }
+
+    const header = table[headerIndex].map(cell => cell.trim());
+    const idColumn = header.findIndex(cell => cell.toLowerCase() === ID_HEADER.toLowerCase());
+    const byName = new Map(project.variables.map(v => [v.name, v]));
+    const columns: { index: number; variable: Variable }[] = [];
+    const seenColumns = new Set<string>();
+
+    header.forEach((name, index) => {
+        if (index === 0 || index === idColumn || name === '') return;
+        const variable = byName.get(name);
+        if (!variable) {
+            issues.push({ severity: 'warning', path: `Column ${name}`, message: 'Not a variable of this project, ignored' });
+        } else if (seenColumns.has(name)) {
+            issues.push({ severity: 'error', path: `Column ${name}`, message: 'Appears more than once' });
+        } else {
+            seenColumns.add(name);
+            columns.push({ index, variable });
+        }
+    });
+
+    const concepts = [...(project.concepts || [])];
+    const pinned = new Set(getPinnedConcepts(project).map(c => c.id));
+    const touched = new Set<string>();
+    let created = 0;
+    let updated = 0;
+    const now = Date.now();
+
+    table.slice(headerIndex + 1).forEach((row, offset) => {
+        const rowNumber = headerIndex + offset + 2; // 1-based, as shown in the spreadsheet
+        const name = (row[0] ?? '').trim();
+        if (name.startsWith(META_PREFIX)) return;
+        if (name === '') {
+            if (row.some(cell => cell.trim() !== '')) {
+                issues.push({ severity: 'warning', path: `Row ${rowNumber}`, message: 'No concept name, row ignored' });
+            }
+            return;
+        }
+
+        const id = idColumn === -1 ? '' : (row[idColumn] ?? '').trim();
+        const existing = concepts.find(c => id !== '' && c.id === id) ?? concepts.find(c => c.name === name);
+        const key = existing?.id ?? `new:${name}`;
+        if (touched.has(key)) {
+            issues.push({ severity: 'error', path: `Row ${rowNumber}`, message: `"${name}" appears in more than one row` });
+            return;
+        }
+        touched.add(key);
+        if (existing && pinned.has(existing.id)) {
+            issues.push({ severity: 'warning', path: `Row ${rowNumber}`, message: `"${name}" is pinned to another build, row ignored` });
+            return;
+        }
+
+        const values: Record<string, unknown> = { ...(existing?.values ?? {}) };
+        for (const { index, variable } of columns) {
+            const text = (row[index] ?? '').trim();
+            if (text === '') {
+                delete values[variable.name];
+                continue;
+            }
+            const problem = validateVariableText(variable, text);
+            if (problem) {
+                issues.push({ severity: 'error', path: `Row ${rowNumber}, ${variable.name}`, message: problem });
+                continue;
+            }
+            values[variable.name] = decodeVariableValue(variable.type, text);
+        }
+
+        if (existing) {
+            concepts[concepts.indexOf(existing)] = { ...existing, name, values, updatedAt: now };
+            updated++;
+        } else {
+            concepts.push({
+                id: crypto.randomUUID(),
+                projectId: project.id,
+                name,
+                createdAt: now,
+                updatedAt: now,
+                values
+            });
+            created++;
+        }
+    });
+
+    return { concepts, created, updated, issues };
+}
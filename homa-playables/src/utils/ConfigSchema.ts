@@ -0,0 +1,281 @@
+import type { HomaBuildInfo, Variable, VariableType } from '../types';
+import { decodeVariables } from './VariableCodec';
+
+/**
+ * Schema of the homa_config.json written by the Unity HomaBuildMenu,
+ * with validation and forward migrations for older plugin versions
+ */
+
+export const CURRENT_CONFIG_VERSION = '1.0';
+
+export interface HomaEventDefinition {
+    name: string;
+    description: string;
+    parameters: string[];
+}
+
+export interface HomaConfig {
+    version: string;
+    buildInfo?: HomaBuildInfo;
+    excludedSDKs: string[];
+    variables: Variable[];
+    events: HomaEventDefinition[];
+}
+
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+export interface ConfigIssue {
+    severity: ConfigIssueSeverity;
+    path: string; // Where in the config, e.g. variables[2] (Speed)
+    message: string;
+}
+
+export interface ConfigParseResult {
+    config: HomaConfig;
+    issues: ConfigIssue[];
+    migratedFrom?: string; // Version the file had before migration
+}
+
+type RawConfig = Record<string, unknown>;
+
+interface ConfigMigration {
+    from: number; // Major version this migration upgrades
+    to: string;
+    migrate(raw: RawConfig): RawConfig;
+}
+
+/**
+ * One entry per major version, applied in order until the current version is reached
+ */
+const MIGRATIONS: ConfigMigration[] = [
+    {
+        // Pre-1.0 plugins wrote no version, build info, events or SDK exclusions
+        from: 0,
+        to: '1.0',
+        migrate(raw) {
+            return { excludedSDKs: [], events: [], ...raw, version: '1.0' };
+        }
+    }
+];
+
+const VARIABLE_TYPES: VariableType[] = ['int', 'float', 'bool', 'enum', 'string', 'vector3', 'color'];
+
+function majorVersion(version: string): number {
+    const major = parseInt(version, 10);
+    return Number.isFinite(major) ? major : 0;
+}
+
+function isObject(value: unknown): value is RawConfig {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function migrateConfig(raw: RawConfig, issues: ConfigIssue[]): { config: RawConfig; migratedFrom?: string } {
+    const originalVersion = typeof raw.version === 'string' ? raw.version : '0';
+    const currentMajor = majorVersion(CURRENT_CONFIG_VERSION);
+    let config = raw;
+    let major = majorVersion(originalVersion);
+
+    if (major > currentMajor) {
+        issues.push({
+            severity: 'warning',
+            path: 'version',
+            message: `Config version ${originalVersion} is newer than this tool supports (${CURRENT_CONFIG_VERSION}), unknown fields are ignored`
+        });
+        return { config };
+    }
+
+    while (major < currentMajor) {
+        const migration = MIGRATIONS.find(m => m.from === major);
+        if (!migration) {
+            throw new Error(`No migration from config version ${major}.x, re-export the build with a newer Homa plugin`);
+        }
+        config = migration.migrate(config);
+        major = majorVersion(migration.to);
+    }
+
+    return { config, migratedFrom: major === majorVersion(originalVersion) ? undefined : originalVersion };
+}
+
+function validateValue(variable: Variable, path: string, issues: ConfigIssue[]) {
+    const raw = variable.value;
+    const text = String(raw ?? '').trim();
+
+    switch (variable.type) {
+        case 'int':
+        case 'float':
+            if (typeof raw !== 'number' && (text === '' || !Number.isFinite(Number(text)))) {
+                issues.push({ severity: 'warning', path, message: `Value "${text}" is not a number, 0 will be used` });
+            } else if (variable.type === 'int' && !Number.isInteger(Number(raw))) {
+                issues.push({ severity: 'warning', path, message: `Value ${text} is not an integer and will be truncated` });
+            } else if (variable.min !== undefined && variable.max !== undefined && variable.min < variable.max &&
+                (Number(raw) < variable.min || Number(raw) > variable.max)) {
+                issues.push({ severity: 'warning', path, message: `Value ${text} is outside its range [${variable.min}, ${variable.max}]` });
+            }
+            break;
+        case 'bool':
+            if (typeof raw !== 'boolean' && !['true', 'false'].includes(text.toLowerCase())) {
+                issues.push({ severity: 'warning', path, message: `Value "${text}" is not true/false, false will be used` });
+            }
+            break;
+        case 'enum':
+            if (variable.options && variable.options.length > 0 && !variable.options.includes(text)) {
+                issues.push({ severity: 'warning', path, message: `Value "${text}" is not one of its options (${variable.options.join(', ')})` });
+            }
+            break;
+    }
+}
+
+function validateVariables(rawVariables: unknown, issues: ConfigIssue[]): Variable[] {
+    if (!Array.isArray(rawVariables)) {
+        throw new Error('"variables" must be a list');
+    }
+
+    const variables: Variable[] = [];
+    const seen = new Set<string>();
+
+    rawVariables.forEach((entry, index) => {
+        let path = `variables[${index}]`;
+        if (!isObject(entry)) {
+            issues.push({ severity: 'error', path, message: 'Variable is not an object' });
+            return;
+        }
+
+        const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+        if (!name) {
+            issues.push({ severity: 'error', path, message: 'Variable has no name' });
+            return;
+        }
+        path = `${path} (${name})`;
+
+        if (seen.has(name)) {
+            issues.push({ severity: 'error', path, message: `Duplicate variable name "${name}", only the first one is kept` });
+            return;
+        }
+        seen.add(name);
+
+        const type = typeof entry.type === 'string' ? entry.type : '';
+        if (!VARIABLE_TYPES.includes(type as VariableType) && !/^Asset:\w+$/.test(type)) {
+            issues.push({ severity: 'error', path, message: `Unsupported type "${type}"` });
+            return;
+        }
+
+        const min = optionalNumber(entry.min);
+        const max = optionalNumber(entry.max);
+        if (min !== undefined && max !== undefined && min > max) {
+            issues.push({ severity: 'error', path, message: `min (${min}) is greater than max (${max})` });
+            return;
+        }
+
+        const options = Array.isArray(entry.options)
+            ? entry.options.filter((o): o is string => typeof o === 'string')
+            : undefined;
+        if (type === 'enum' && (!options || options.length === 0)) {
+            issues.push({ severity: 'error', path, message: 'Enum has no options' });
+            return;
+        }
+
+        const step = optionalNumber(entry.step);
+        if (step !== undefined && step < 0) {
+            issues.push({ severity: 'warning', path, message: `Negative step (${step}) ignored` });
+        }
+
+        const variable: Variable = {
+            name,
+            type: type as VariableType,
+            value: entry.value,
+            defaultValue: entry.defaultValue,
+            min,
+            max,
+            step: step !== undefined && step > 0 ? step : undefined,
+            options,
+            section: typeof entry.section === 'string' && entry.section ? entry.section : undefined,
+            order: optionalNumber(entry.order) ?? 0,
+            requiresRestart: entry.requiresRestart === true ? true : undefined
+        };
+        validateValue(variable, path, issues);
+        variables.push(variable);
+    });
+
+    return decodeVariables(variables);
+}
+
+function validateEvents(rawEvents: unknown, issues: ConfigIssue[]): HomaEventDefinition[] {
+    if (rawEvents === undefined) return [];
+    if (!Array.isArray(rawEvents)) {
+        issues.push({ severity: 'warning', path: 'events', message: '"events" is not a list and was ignored' });
+        return [];
+    }
+
+    const events: HomaEventDefinition[] = [];
+    rawEvents.forEach((entry, index) => {
+        if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name) {
+            issues.push({ severity: 'warning', path: `events[${index}]`, message: 'Event has no name and was ignored' });
+            return;
+        }
+        events.push({
+            name: entry.name,
+            description: typeof entry.description === 'string' ? entry.description : '',
+            parameters: Array.isArray(entry.parameters)
+                ? entry.parameters.filter((p): p is string => typeof p === 'string')
+                : []
+        });
+    });
+    return events;
+}
+
+function validateBuildInfo(rawBuildInfo: unknown, issues: ConfigIssue[]): HomaBuildInfo | undefined {
+    if (!isObject(rawBuildInfo)) {
+        issues.push({ severity: 'warning', path: 'buildInfo', message: 'No build info, the build may come from an older plugin' });
+        return undefined;
+    }
+
+    const text = (value: unknown) => typeof value === 'string' ? value : '';
+    return {
+        unityVersion: text(rawBuildInfo.unityVersion),
+        pluginVersion: text(rawBuildInfo.pluginVersion),
+        buildDate: text(rawBuildInfo.buildDate),
+        buildSize: optionalNumber(rawBuildInfo.buildSize),
+        compressionFormat: text(rawBuildInfo.compressionFormat)
+    };
+}
+
+/**
+ * Parse, migrate and validate homa_config.json.
+ * Throws when the file is unusable; otherwise invalid variables are dropped
+ * and reported as errors, recoverable problems as warnings.
+ */
+export function parseHomaConfig(text: string): ConfigParseResult {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`homa_config.json is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    // Early plugins wrote the variable list as the whole file
+    if (Array.isArray(json)) json = { variables: json };
+    if (!isObject(json)) {
+        throw new Error('homa_config.json must contain an object');
+    }
+
+    const issues: ConfigIssue[] = [];
+    const { config: raw, migratedFrom } = migrateConfig(json, issues);
+
+    const excludedSDKs = Array.isArray(raw.excludedSDKs)
+        ? raw.excludedSDKs.filter((s): s is string => typeof s === 'string')
+        : [];
+
+    const config: HomaConfig = {
+        version: typeof raw.version === 'string' ? raw.version : CURRENT_CONFIG_VERSION,
+        buildInfo: validateBuildInfo(raw.buildInfo, issues),
+        excludedSDKs,
+        variables: validateVariables(raw.variables ?? [], issues),
+        events: validateEvents(raw.events, issues)
+    };
+
+    return { config, issues, migratedFrom };
+}
@@ -0,0 +1,43 @@
+/**
+ * Trigger a browser download for a Blob
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Save a stream to a file chunk by chunk, so large archives never sit in memory whole.
+ * Browsers without a save dialog get it collected into a Blob and downloaded instead.
+ * Resolves false when the user cancels the dialog.
+ */
+export async function saveStream(
+    filename: string,
+    createStream: () => Promise<ReadableStream<Uint8Array>>
+): Promise<boolean> {
+    if (!window.showSaveFilePicker) {
+        downloadBlob(await new Response(await createStream()).blob(), filename);
+        return true;
+    }
+
+    // Ask first: the dialog needs the click that started the export
+    let handle: FileSystemFileHandle;
+    try {
+        handle = await window.showSaveFilePicker({
+            suggestedName: filename,
+            types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+        });
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return false;
+        throw err;
+    }
+    const stream = await createStream();
+    await stream.pipeTo(await handle.createWritable());
+    return true;
+}
@@ -0,0 +1,60 @@
+import type { Variable } from '../types';
+
+/**
+ * Undo/redo history of the concept editor. Every entry is a full snapshot of
+ * the variables, so jumping to any entry is a single state change.
+ */
+
+export interface HistoryEntry {
+    label: string;
+    variables: Variable[];
+    time: number;
+    mergeKey?: string; // Consecutive changes with the same key become one entry
+}
+
+export interface EditHistory {
+    entries: HistoryEntry[]; // Oldest first, entries[0] is the state the editor opened with
+    index: number; // Entry shown in the editor, later entries can be redone
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+const MERGE_WINDOW_MS = 1000; // A slider drag or typing counts as one change
+
+export function createHistory(variables: Variable[], label: string = 'Opened concept'): EditHistory {
+    return { entries: [{ label, variables, time: Date.now() }], index: 0 };
+}
+
+/**
+ * Record a new state, dropping the redo entries.
+ * With a mergeKey, a change following one with the same key shortly after replaces it.
+ */
+export function pushHistory(history: EditHistory, variables: Variable[], label: string, mergeKey?: string): EditHistory {
+    const now = Date.now();
+    const current = history.entries[history.index];
+    const kept = history.entries.slice(0, history.index + 1);
+
+    if (mergeKey && history.index > 0 && current.mergeKey === mergeKey && now - current.time < MERGE_WINDOW_MS) {
+        kept[kept.length - 1] = { ...current, variables, time: now };
+        return { entries: kept, index: history.index };
+    }
+
+    const entries = [...kept, { label, variables, time: now, mergeKey }].slice(-MAX_HISTORY_ENTRIES);
+    return { entries, index: entries.length - 1 };
+}
+
+export function canUndo(history: EditHistory): boolean {
+    return history.index > 0;
+}
+
+export function canRedo(history: EditHistory): boolean {
+    return history.index < history.entries.length - 1;
+}
+
+/**
+ * Move to an entry; the returned history never merges into the entry it lands on
+ */
+export function jumpTo(history: EditHistory, index: number): EditHistory {
+    const target = Math.max(0, Math.min(index, history.entries.length - 1));
+    const entries = history.entries.map((entry, i) => i === target ? { ...entry, mergeKey: undefined } : entry);
+    return { entries, index: target };
+}
@@ -1,125 +1,214 @@
 import JSZip from 'jszip';
 
-import { validateFileSize, formatFileSize } from './AssetInliner';
-import { getMintegralSDK } from './MRAIDWrapper';
+import type { AdFormat, AdOrientation, AdSize, Project, StoreUrls, Variable } from '../types';
+import { formatFileSize } from './AssetInliner';
+import { checkExportCompliance, type ComplianceIssue } from './ComplianceChecker';
+import { createExportReport, type ExportReport } from './ExportReport';
+import { getNetworkAdapter } from './networks';
+import { generateExportZip } from './networks/NetworkAdapter';
+import { toUnityConfigJson } from './VariableCodec';
+
+export type ExportNetwork = string; // Id of a registered NetworkAdapter
+
+export interface ExportResult {
+    blob: Blob;
+    filename: string;
+    report: ExportReport;
+    issues: ComplianceIssue[];
+}
 
-export type ExportNetwork = 'mintegral' | 'applovin';
+export interface BatchExportItem {
+    name: string;
+    variables: Variable[]; // Project variables with the item's values applied
+    zipBlob?: Blob; // Build to export against (e.g. a pinned revision), the batch's build when unset
+    error?: string; // Why the item cannot be exported, recorded as a failure on every network
+}
 
-export async function exportProject(
-    originalZipBlob: Blob,
-    values: Record<string, any>,
-    network: ExportNetwork,
-    projectName: string = 'playable'
-): Promise<Blob> {
-    const zip = await JSZip.loadAsync(originalZipBlob);
+export interface BatchExportFailure {
+    item: string;
+    network: ExportNetwork;
+    error: string;
+}
 
-    // Transform values into Unity's expected format: {variables: [{name, value}]}
-    const unityConfig = {
-        variables: Object.entries(values).map(([name, value]) => ({
-            name,
-            value: String(value) // Unity expects string values
-        }))
-    };
-    const varsJson = JSON.stringify(unityConfig);
+export interface BatchComplianceResult {
+    item: string;
+    network: ExportNetwork;
+    issues: ComplianceIssue[];
+}
 
-    if (network === 'mintegral') {
-        return await exportMintegral(zip, varsJson, projectName);
-    } else if (network === 'applovin') {
-        return await exportAppLovin(zip, varsJson, projectName);
-    }
+export interface BatchExportReport {
+    item: string;
+    report: ExportReport;
+}
 
-    throw new Error('Unknown network');
+export interface BatchExportResult {
+    blob: Blob;
+    exported: number;
+    failures: BatchExportFailure[];
+    reports: BatchExportReport[]; // Every export that was built, including those over the limit
+    compliance: BatchComplianceResult[]; // Only exports with issues
 }
 
+export type ExportSettings = Pick<Project, 'storeUrls' | 'networkStoreUrls' | 'adOrientation' | 'adSize'>;
+
+export type BatchProgressCallback = (done: number, total: number, label: string) => void;
+
 /**
- * Mintegral Export
- * Format: ZIP file with structure: name.zip > name/ > name.html
- * Max size: 5MB
+ * Project store URLs with the network's overrides applied (empty overrides are ignored)
  */
-async function exportMintegral(
-    zip: JSZip,
-    varsJson: string,
-    projectName: string
-): Promise<Blob> {
-    const indexFile = zip.file('index.html');
-    if (!indexFile) throw new Error('index.html not found');
-
-    let html = await indexFile.async('string');
-
-    // Inject Mintegral SDK and variables
-    const sdkScript = getMintegralSDK(varsJson);
-    if (html.includes('</head>')) {
-        html = html.replace('</head>', `${sdkScript}</head>`);
-    } else {
-        html = sdkScript + html;
-    }
+export function resolveStoreUrls(settings: ExportSettings, network: ExportNetwork): StoreUrls {
+    const override = settings.networkStoreUrls?.[network] || {};
+    return {
+        ios: override.ios || settings.storeUrls?.ios,
+        android: override.android || settings.storeUrls?.android
+    };
+}
 
-    // Create new ZIP with proper structure
-    const exportZip = new JSZip();
-    const folderName = projectName;
-
-    // Add modified HTML
-    exportZip.file(`${folderName}/${folderName}.html`, html);
-
-    // Copy all other files to the folder
-    const filePromises: Promise<void>[] = [];
-    zip.forEach((relativePath, zipEntry) => {
-        if (!zipEntry.dir && relativePath !== 'index.html') {
-            const promise = (async () => {
-                const content = await zipEntry.async('blob');
-                exportZip.file(`${folderName}/${relativePath}`, content);
-            })();
-            filePromises.push(promise);
-        }
-    });
+export const DEFAULT_AD_SIZES: Record<AdOrientation, AdSize> = {
+    portrait: { width: 320, height: 480 },
+    landscape: { width: 480, height: 320 },
+    both: { width: 320, height: 480 }
+};
 
-    await Promise.all(filePromises);
+/**
+ * Project ad format, with the size defaulting to the usual interstitial size for its orientation
+ */
+export function resolveAdFormat(settings: ExportSettings): AdFormat {
+    const orientation = settings.adOrientation ?? 'both';
+    return { orientation, size: settings.adSize ?? DEFAULT_AD_SIZES[orientation] };
+}
 
-    // Generate ZIP
-    const resultBlob = await exportZip.generateAsync({
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: { level: 9 }
+async function buildForNetwork(
+    zip: JSZip,
+    variables: Variable[],
+    network: ExportNetwork,
+    projectName: string,
+    settings: ExportSettings
+): Promise<{ blob: Blob; report: ExportReport; issues: ComplianceIssue[] }> {
+    const adapter = getNetworkAdapter(network);
+    const { blob, parts } = await adapter.build({
+        zip,
+        varsJson: toUnityConfigJson(variables),
+        storeUrls: resolveStoreUrls(settings, network),
+        adFormat: resolveAdFormat(settings),
+        projectName
     });
+    await adapter.validate?.(blob);
 
-    // Validate size
-    if (!validateFileSize(resultBlob.size)) {
-        throw new Error(
-            `Mintegral export exceeds 5MB limit. Current size: ${formatFileSize(resultBlob.size)}`
-        );
-    }
+    return {
+        blob,
+        report: createExportReport(adapter, blob, parts),
+        issues: await checkExportCompliance(adapter, blob)
+    };
+}
+
+export async function exportProject(
+    originalZipBlob: Blob,
+    variables: Variable[],
+    network: ExportNetwork,
+    projectName: string = 'playable',
+    settings: ExportSettings = {}
+): Promise<ExportResult> {
+    const zip = await JSZip.loadAsync(originalZipBlob);
+    const { blob, report, issues } = await buildForNetwork(zip, variables, network, projectName, settings);
 
-    console.log(`[Mintegral] Export size: ${formatFileSize(resultBlob.size)}`);
-    return resultBlob;
+    // Size limits are not enforced here: the caller decides from the report
+    return { blob, filename: getNetworkAdapter(network).getFileName(projectName), report, issues };
 }
 
 /**
- * AppLovin Export
- * Format: Single HTML file with ALL assets Base64-encoded
- * Max size: 5MB
- * CRITICAL: Must include MRAID v2.0 integration
+ * Strip characters that would create extra folders inside the bundle
  */
-async function exportAppLovin(
-    zip: JSZip,
-    varsJson: string,
-    projectName: string
-): Promise<Blob> {
-    // Use Unity-specific exporter
-    const { exportUnityToSingleHTML } = await import('./UnityExporter');
-
-    const finalHtml = await exportUnityToSingleHTML(zip, varsJson, projectName);
-
-    // Create final blob
-    const resultBlob = new Blob([finalHtml], { type: 'text/html' });
-
-    // Validate size
-    // if (!validateFileSize(resultBlob.size)) {
-    //     throw new Error(
-    //         `AppLovin export exceeds 5MB limit. Current size: ${formatFileSize(resultBlob.size)}. ` +
-    //         `Try reducing texture quality or removing unused assets in Unity.`
-    //     );
-    // }
-
-    console.log(`[AppLovin] Final export size: ${formatFileSize(resultBlob.size)}`);
-    return resultBlob;
+function toSafeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]/g, '-').trim();
+}
+
+/**
+ * Items named so that no two get the same file name,
+ * later duplicates are numbered like "Concept (2)"
+ */
+function withUniqueNames(items: BatchExportItem[], projectName: string) {
+    const fileNames = new Set<string>();
+    return items.map(item => {
+        let label = item.name;
+        let baseName = toSafeFileName(`${projectName}-${label}`);
+        // Case-insensitive, the bundle is usually extracted on a case-insensitive file system
+        for (let suffix = 2; fileNames.has(baseName.toLowerCase()); suffix++) {
+            label = `${item.name} (${suffix})`;
+            baseName = toSafeFileName(`${projectName}-${label}`);
+        }
+        fileNames.add(baseName.toLowerCase());
+        return { ...item, label, baseName };
+    });
+}
+
+/**
+ * Export every item to every network into one bundle ZIP
+ * Layout: <network>/<project>-<item>.<html|zip>
+ * Each source ZIP is parsed once and shared by all exports using it.
+ * A failing export is recorded and skipped, it does not stop the batch.
+ * Exports over their network's size limit count as failures unless allowOverLimit is set.
+ */
+export async function exportBatch(
+    originalZipBlob: Blob,
+    items: BatchExportItem[],
+    networks: ExportNetwork[],
+    projectName: string,
+    settings: ExportSettings,
+    onProgress?: BatchProgressCallback,
+    allowOverLimit: boolean = false
+): Promise<BatchExportResult> {
+    // Each distinct build is parsed once and shared by every export using it
+    const zips = new Map<Blob, Promise<JSZip>>();
+    const loadZip = (blob: Blob) => {
+        if (!zips.has(blob)) zips.set(blob, JSZip.loadAsync(blob));
+        return zips.get(blob)!;
+    };
+    await loadZip(originalZipBlob);
+
+    const bundle = new JSZip();
+    const failures: BatchExportFailure[] = [];
+    const reports: BatchExportReport[] = [];
+    const compliance: BatchComplianceResult[] = [];
+    const total = items.length * networks.length;
+    let done = 0;
+
+    for (const network of networks) {
+        const adapter = getNetworkAdapter(network);
+
+        for (const { label, baseName, ...item } of withUniqueNames(items, projectName)) {
+            onProgress?.(done, total, `${label} → ${adapter.label}`);
+
+            try {
+                if (item.error) throw new Error(item.error);
+                const zip = await loadZip(item.zipBlob ?? originalZipBlob);
+                const { blob, report, issues } = await buildForNetwork(zip, item.variables, network, baseName, settings);
+                reports.push({ item: label, report });
+                if (issues.length > 0) {
+                    compliance.push({ item: label, network, issues });
+                }
+
+                if (report.overLimit && !allowOverLimit) {
+                    throw new Error(
+                        `Exceeds ${formatFileSize(report.limit)} limit (${formatFileSize(report.totalSize)})`
+                    );
+                }
+                bundle.file(`${adapter.id}/${baseName}.${adapter.format}`, blob);
+            } catch (err) {
+                console.error(`[BatchExport] ${label} → ${adapter.label} failed:`, err);
+                failures.push({
+                    item: label,
+                    network,
+                    error: err instanceof Error ? err.message : String(err)
+                });
+            }
+
+            done++;
+        }
+    }
+
+    onProgress?.(done, total, 'Bundling...');
+    const blob = await generateExportZip(bundle);
+
+    return { blob, exported: total - failures.length, failures, reports, compliance };
 }
@@ -0,0 +1,70 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { partsFromBuildZip } from './ExportReport';
+
+// Only the central directory and end records of a ZIP64 archive with one entry, as partsFromBuildZip reads nothing else
+function zip64Directory(name: string, compressed: number, uncompressed: number): Blob {
+    const nameBytes = new TextEncoder().encode(name);
+    const headerSize = 46 + nameBytes.length + 20;
+    const view = new DataView(new ArrayBuffer(headerSize + 56 + 20 + 22));
+
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint32(20, 0xffffffff, true);
+    view.setUint32(24, 0xffffffff, true);
+    view.setUint16(28, nameBytes.length, true);
+    view.setUint16(30, 20, true);
+    new Uint8Array(view.buffer, 46).set(nameBytes);
+    const extra = 46 + nameBytes.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 16, true);
+    view.setBigUint64(extra + 4, BigInt(uncompressed), true);
+    view.setBigUint64(extra + 12, BigInt(compressed), true);
+
+    const end64 = headerSize;
+    view.setUint32(end64, 0x06064b50, true);
+    view.setBigUint64(end64 + 4, 44n, true);
+    view.setBigUint64(end64 + 32, 1n, true);
+    view.setBigUint64(end64 + 40, BigInt(headerSize), true);
+    view.setBigUint64(end64 + 48, 0n, true);
+
+    const locator = end64 + 56;
+    view.setUint32(locator, 0x07064b50, true);
+    view.setBigUint64(locator + 8, BigInt(end64), true);
+    view.setUint32(locator + 16, 1, true);
+
+    const end = locator + 20;
+    view.setUint32(end, 0x06054b50, true);
+    view.setUint16(end + 8, 0xffff, true);
+    view.setUint16(end + 10, 0xffff, true);
+    view.setUint32(end + 12, 0xffffffff, true);
+    view.setUint32(end + 16, 0xffffffff, true);
+    return new Blob([view.buffer]);
+}
+
+describe('partsFromBuildZip', () => {
+    it('reports the stored and extracted size of every part', async () => {
+        const zip = new JSZip();
+        const wasm = new Uint8Array(64 * 1024); // Zeros deflate to almost nothing
+        zip.file('index.html', '<html><head></head></html>');
+        zip.file('Build/game.wasm', wasm);
+        zip.file('Build/game.loader.js', 'function createUnityInstance() {}');
+        const bytes = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+
+        const parts = await partsFromBuildZip(new Blob([bytes]), '<script>é</script>');
+        const wasmPart = parts.find(p => p.name === 'wasm')!;
+        expect(wasmPart.inlined).toBe(wasm.byteLength);
+        expect(wasmPart.compressed).toBeGreaterThan(0);
+        expect(wasmPart.compressed).toBeLessThan(wasm.byteLength);
+        expect(parts.find(p => p.name === 'loader')!.inlined).toBe(33);
+        expect(parts.find(p => p.name === 'scripts')).toEqual({ name: 'scripts', compressed: 19, inlined: 19 });
+    });
+
+    it('reads sizes over 4GB from ZIP64 records', async () => {
+        const parts = await partsFromBuildZip(zip64Directory('Build/game.wasm', 4.5 * 2 ** 30, 5 * 2 ** 30), '');
+        expect(parts.find(p => p.name === 'wasm')).toEqual({ name: 'wasm', compressed: 4.5 * 2 ** 30, inlined: 5 * 2 ** 30 });
+    });
+
+    it('rejects files that are not ZIPs', async () => {
+        await expect(partsFromBuildZip(new Blob(['not a zip']), '')).rejects.toThrow('not a valid ZIP');
+    });
+});
@@ -0,0 +1,194 @@
+import type { ExportFormat, NetworkAdapter } from './networks/NetworkAdapter';
+import type { UnitySingleHTML } from './UnityExporter';
+
+/**
+ * Size report produced by every export
+ */
+
+export type ExportPartName = 'loader' | 'framework' | 'wasm' | 'data' | 'scripts' | 'other';
+
+export interface ExportPart {
+    name: ExportPartName;
+    compressed: number; // HTML: bytes in the Unity build. ZIP: bytes stored in the export
+    inlined: number; // HTML: bytes once inlined in the export. ZIP: bytes once extracted
+}
+
+export interface ExportReport {
+    network: string;
+    label: string;
+    format: ExportFormat;
+    totalSize: number;
+    limit: number;
+    headroom: number; // Negative when over the limit
+    overLimit: boolean;
+    base64Overhead: number; // Extra bytes from Base64-encoding the build blobs
+    parts: ExportPart[];
+}
+
+export const EXPORT_PART_LABELS: Record<ExportPartName, string> = {
+    loader: 'Loader',
+    framework: 'Framework',
+    wasm: 'WebAssembly',
+    data: 'Data',
+    scripts: 'Injected scripts',
+    other: 'Other files'
+};
+
+function byteLength(text: string): number {
+    return new Blob([text]).size;
+}
+
+/**
+ * Parts of a single-HTML export (everything Base64-inlined)
+ */
+export function partsFromSingleHTML(unityHtml: UnitySingleHTML, sdkScript: string): ExportPart[] {
+    const scriptSize = byteLength(sdkScript);
+    return [
+        { name: 'loader', ...unityHtml.parts.loader },
+        { name: 'framework', ...unityHtml.parts.framework },
+        { name: 'wasm', ...unityHtml.parts.wasm },
+        { name: 'data', ...unityHtml.parts.data },
+        { name: 'scripts', compressed: scriptSize, inlined: scriptSize }
+    ];
+}
+
+function partNameForPath(path: string): ExportPartName {
+    const cleanPath = path.replace(/\.(gz|br|unityweb)$/, '');
+    if (cleanPath.endsWith('.loader.js')) return 'loader';
+    if (cleanPath.endsWith('.framework.js')) return 'framework';
+    if (cleanPath.endsWith('.wasm')) return 'wasm';
+    if (cleanPath.endsWith('.data')) return 'data';
+    return 'other';
+}
+
+interface ZipEntrySize {
+    name: string;
+    compressed: number;
+    uncompressed: number;
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const ZIP64_MARKER = 0xffffffff; // 32-bit field whose real value is in the ZIP64 records
+
+function readUint64(view: DataView, offset: number): number {
+    return Number(view.getBigUint64(offset, true));
+}
+
+/**
+ * Directory offset and entry count, from the ZIP64 end record when the 32-bit ones overflowed
+ */
+function readCentralDirectory(view: DataView, end: number): { offset: number; count: number } {
+    const offset = view.getUint32(end + 16, true);
+    const count = view.getUint16(end + 10, true);
+    if (offset !== ZIP64_MARKER && count !== 0xffff) return { offset, count };
+
+    const locator = end - 20;
+    if (locator < 0 || view.getUint32(locator, true) !== ZIP64_END_LOCATOR) throw new Error('Export ZIP64 has no end record locator');
+    const end64 = readUint64(view, locator + 8);
+    if (view.getUint32(end64, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) throw new Error('Export ZIP64 has a corrupted end record');
+    return { offset: readUint64(view, end64 + 48), count: readUint64(view, end64 + 32) };
+}
+
+/**
+ * Stored sizes of every entry, read from the ZIP's central directory
+ * (JSZip does not expose compressed sizes)
+ */
+async function readZipEntrySizes(zip: Blob): Promise<ZipEntrySize[]> {
+    const view = new DataView(await zip.arrayBuffer());
+
+    // The end record is the last 22 bytes, followed by a comment of up to 64KB
+    let end = -1;
+    for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+        if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+            end = offset;
+            break;
+        }
+    }
+    if (end < 0) throw new Error('Export is not a valid ZIP file');
+
+    const entries: ZipEntrySize[] = [];
+    const decoder = new TextDecoder();
+    const directory = readCentralDirectory(view, end);
+    let offset = directory.offset;
+    for (let i = 0; i < directory.count; i++) {
+        if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_HEADER) throw new Error('Export ZIP has a corrupted directory');
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const entry: ZipEntrySize = {
+            name: decoder.decode(new Uint8Array(view.buffer, offset + 46, nameLength)),
+            compressed: view.getUint32(offset + 20, true),
+            uncompressed: view.getUint32(offset + 24, true)
+        };
+
+        // ZIP64 extra field: the 64-bit values of the overflowed fields, uncompressed size first
+        for (let extra = offset + 46 + nameLength; extra + 4 <= offset + 46 + nameLength + extraLength;) {
+            const id = view.getUint16(extra, true);
+            const size = view.getUint16(extra + 2, true);
+            if (id === ZIP64_EXTRA_FIELD) {
+                let field = extra + 4;
+                if (entry.uncompressed === ZIP64_MARKER) {
+                    entry.uncompressed = readUint64(view, field);
+                    field += 8;
+                }
+                if (entry.compressed === ZIP64_MARKER) {
+                    entry.compressed = readUint64(view, field);
+                }
+            }
+            extra += 4 + size;
+        }
+
+        entries.push(entry);
+        offset += 46 + nameLength + extraLength + view.getUint16(offset + 32, true);
+    }
+    return entries;
+}
+
+/**
+ * Parts of a ZIP export, from the sizes stored in the generated ZIP
+ */
+export async function partsFromBuildZip(exportZip: Blob, sdkScript: string): Promise<ExportPart[]> {
+    const sizes = new Map<ExportPartName, { compressed: number; inlined: number }>();
+    for (const entry of await readZipEntrySizes(exportZip)) {
+        if (entry.name.endsWith('/')) continue;
+        const name = partNameForPath(entry.name);
+        const size = sizes.get(name) ?? { compressed: 0, inlined: 0 };
+        sizes.set(name, { compressed: size.compressed + entry.compressed, inlined: size.inlined + entry.uncompressed });
+    }
+
+    const scriptSize = byteLength(sdkScript);
+    const parts: ExportPart[] = (['loader', 'framework', 'wasm', 'data', 'other'] as ExportPartName[])
+        .filter(name => sizes.has(name))
+        .map(name => ({ name, ...sizes.get(name)! }));
+
+    return [...parts, { name: 'scripts', compressed: scriptSize, inlined: scriptSize }];
+}
+
+/**
+ * Bytes a part takes up in the exported file
+ */
+export function exportedSize(report: Pick<ExportReport, 'format'>, part: ExportPart): number {
+    return report.format === 'zip' ? part.compressed : part.inlined;
+}
+
+export function createExportReport(adapter: NetworkAdapter, blob: Blob, parts: ExportPart[]): ExportReport {
+    // Only single-HTML exports Base64-encode the build
+    const base64Overhead = adapter.format !== 'html' ? 0 : parts
+        .filter(p => p.name === 'framework' || p.name === 'wasm' || p.name === 'data')
+        .reduce((sum, p) => sum + Math.max(0, p.inlined - p.compressed), 0);
+
+    return {
+        network: adapter.id,
+        label: adapter.label,
+        format: adapter.format,
+        totalSize: blob.size,
+        limit: adapter.maxSizeBytes,
+        headroom: adapter.maxSizeBytes - blob.size,
+        overLimit: blob.size > adapter.maxSizeBytes,
+        base64Overhead,
+        parts
+    };
+}
@@ -0,0 +1,7 @@
+/**
+ * SHA-256 of a Blob as a hex string
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,64 @@
+import type { Variable } from '../types';
+import { encodeVariableValue } from './VariableCodec';
+
+/**
+ * postMessage protocol between the editor and a running preview build.
+ * The bridge injected by sw.js updates window.HOMA_CONFIG and dispatches a
+ * cancelable "homa:variables" event; HomaBridge.jslib forwards it to HomaConfigLoader
+ * and calls preventDefault(), builds without it are answered with applied: false.
+ *
+ *   editor -> build  { type: 'homa_set_variables', id, variables: [{ name, value }] }
+ *   build -> editor  { type: 'homa_variables_ack', id, applied }
+ *
+ * Values are encoded the way homa_config.json holds them.
+ */
+
+export const SET_VARIABLES_MESSAGE = 'homa_set_variables';
+export const VARIABLES_ACK_MESSAGE = 'homa_variables_ack';
+
+const ACK_TIMEOUT_MS = 1000;
+
+export interface SetVariablesMessage {
+    type: typeof SET_VARIABLES_MESSAGE;
+    id: string;
+    variables: { name: string; value: string }[];
+}
+
+export interface VariablesAckMessage {
+    type: typeof VARIABLES_ACK_MESSAGE;
+    id: string;
+    applied: boolean;
+}
+
+function isAck(data: unknown, id: string): data is VariablesAckMessage {
+    const message = data as Partial<VariablesAckMessage> | null;
+    return typeof message === 'object' && message !== null && message.type === VARIABLES_ACK_MESSAGE && message.id === id;
+}
+
+/**
+ * Send changed variables to the build in a preview frame.
+ * Resolves true when the game applied them, false when it declined or didn't answer in time.
+ */
+export function pushVariables(target: Window, variables: Pick<Variable, 'name' | 'type' | 'value'>[]): Promise<boolean> {
+    const message: SetVariablesMessage = {
+        type: SET_VARIABLES_MESSAGE,
+        id: crypto.randomUUID(),
+        variables: variables.map(v => ({ name: v.name, value: encodeVariableValue(v.type, v.value) }))
+    };
+
+    return new Promise(resolve => {
+        const finish = (applied: boolean) => {
+            window.clearTimeout(timer);
+            window.removeEventListener('message', onMessage);
+            resolve(applied);
+        };
+        const onMessage = (event: MessageEvent) => {
+            if (event.source === target && isAck(event.data, message.id)) finish(event.data.applied === true);
+        };
+        const timer = window.setTimeout(() => finish(false), ACK_TIMEOUT_MS);
+
+        window.addEventListener('message', onMessage);
+        // Same origin: previews are served by the service worker
+        target.postMessage(message, window.location.origin);
+    });
+}
@@ -1,10 +1,54 @@
+import type { AdFormat, AdOrientation, StoreUrls } from '../types';
+
 /**
- * MRAID v2.0 wrapper for AppLovin playable ads
+ * Store URL resolver shared by every bridge.
+ * Picks the iOS or Android URL from the platform the MRAID container reports,
+ * falling back to the user agent.
  */
+function getStoreUrlScript(storeUrls: StoreUrls): string {
+    // Escape "<" so a URL can never close the script tag
+    const urlsJson = JSON.stringify({ ios: storeUrls.ios || '', android: storeUrls.android || '' })
+        .replace(/</g, '\\u003c');
 
-export function getMRAIDWrapper(variablesJson: string): string {
     return `
 <script>
+// ===== Store URLs =====
+(function() {
+    window.HOMA_STORE_URLS = ${urlsJson};
+    
+    function detectPlatform() {
+        try {
+            if (typeof mraid !== 'undefined' && typeof mraid.getPlatform === 'function') {
+                var platform = String(mraid.getPlatform()).toLowerCase();
+                if (platform.indexOf('android') !== -1) return 'android';
+                if (platform.indexOf('ios') !== -1) return 'ios';
+            }
+        } catch (e) {
+            console.warn('[Store] mraid.getPlatform() failed:', e);
+        }
+        var ua = navigator.userAgent || '';
+        if (/android/i.test(ua)) return 'android';
+        if (/iphone|ipad|ipod/i.test(ua) || (/macintosh/i.test(ua) && navigator.maxTouchPoints > 1)) return 'ios';
+        return 'unknown';
+    }
+    
+    window.getStoreUrl = function() {
+        var urls = window.HOMA_STORE_URLS;
+        return detectPlatform() === 'android'
+            ? (urls.android || urls.ios)
+            : (urls.ios || urls.android);
+    };
+})();
+</script>`;
+}
+
+/**
+ * MRAID v2.0 wrapper for AppLovin playable ads
+ */
+
+export function getMRAIDWrapper(variablesJson: string, storeUrls: StoreUrls = {}): string {
+    return `${getStoreUrlScript(storeUrls)}
+<script>
 // ===== MRAID v2.0 Integration for AppLovin =====
 // Compliant with AppLovin HTML Playable Specifications
 (function() {
@@ -115,14 +159,17 @@ export function getMRAIDWrapper(variablesJson: string): string {
     // ===== CTA/Click-Through Helper =====
     // Requirement: Use mraid.open() for click-through actions
     window.openAppStore = function(url) {
-        if (typeof mraid !== 'undefined' && mraid.getState() !== 'loading') {
-            console.log('[MRAID] Opening app store:', url);
-            mraid.open(url || 'https://apps.apple.com/');
+        const target = url || window.getStoreUrl();
+        if (!target) {
+            console.warn('[MRAID] No store URL configured');
+        } else if (typeof mraid !== 'undefined' && mraid.getState() !== 'loading') {
+            console.log('[MRAID] Opening app store:', target);
+            mraid.open(target);
         } else {
-            console.log('[MRAID] Not available, opening URL directly:', url);
-            window.open(url || 'https://apps.apple.com/', '_blank');
+            console.log('[MRAID] Not available, store click ignored:', target);
         }
     };
+    window.install = window.openAppStore;
     
     // ===== Initialization =====
     // Set up audio control when DOM is ready
@@ -141,8 +188,8 @@ export function getMRAIDWrapper(variablesJson: string): string {
 /**
  * Mintegral SDK integration
  */
-export function getMintegralSDK(variablesJson: string): string {
-    return `
+export function getMintegralSDK(variablesJson: string, storeUrls: StoreUrls = {}): string {
+    return `${getStoreUrlScript(storeUrls)}
 <script>
 // Mintegral SDK Integration
 (function() {
@@ -150,12 +197,22 @@ export function getMintegralSDK(variablesJson: string): string {
     window.HOMA_CONFIG = ${variablesJson};
     
     // Mintegral tracking
+    // Requirement: CTA calls install(), the click-through goes through mraid.open()
     window.install = function() {
-        console.log('[Mintegral] Install clicked');
+        const url = window.getStoreUrl();
+        console.log('[Mintegral] Install clicked:', url);
         if (typeof window.gameEnd !== 'undefined') {
             window.gameEnd();
         }
+        if (!url) {
+            console.warn('[Mintegral] No store URL configured');
+        } else if (typeof mraid !== 'undefined') {
+            mraid.open(url);
+        } else {
+            console.log('[Mintegral] MRAID not available, store click ignored');
+        }
     };
+    window.openAppStore = window.install;
     
     // Signal game end (required by Mintegral)
     window.gameEnd = function() {
@@ -166,3 +223,296 @@ export function getMintegralSDK(variablesJson: string): string {
 </script>
 `;
 }
+
+/**
+ * ironSource / Unity LevelPlay DAPI (Display API) integration
+ */
+export function getIronSourceDAPI(variablesJson: string, storeUrls: StoreUrls = {}): string {
+    return `${getStoreUrlScript(storeUrls)}
+<script>
+// ===== ironSource DAPI Integration =====
+(function() {
+    'use strict';
+    
+    // Inject Homa variables
+    window.HOMA_CONFIG = ${variablesJson};
+    
+    function hasDAPI() {
+        return typeof dapi !== 'undefined';
+    }
+    
+    // ===== Viewability & Audio =====
+    // Requirement: Gameplay and audio follow the DAPI viewable / volume state
+    function onViewableChange(event) {
+        console.log('[DAPI] Viewable:', event.isViewable);
+        if (typeof window.onViewableChange === 'function') {
+            window.onViewableChange(event.isViewable);
+        }
+    }
+    
+    function onAudioVolumeChange(volume) {
+        console.log('[DAPI] Audio volume:', volume);
+        document.querySelectorAll('audio, video').forEach(el => {
+            el.muted = !volume;
+        });
+    }
+    
+    function onAdResized(event) {
+        console.log('[DAPI] Resized:', event.width, 'x', event.height);
+    }
+    
+    function onDAPIReady() {
+        dapi.removeEventListener('ready', onDAPIReady);
+        console.log('[DAPI] Ready');
+        
+        onAudioVolumeChange(dapi.getAudioVolume());
+        if (dapi.isViewable()) {
+            onViewableChange({ isViewable: true });
+        }
+        
+        dapi.addEventListener('viewableChange', onViewableChange);
+        dapi.addEventListener('audioVolumeChange', onAudioVolumeChange);
+        dapi.addEventListener('adResized', onAdResized);
+    }
+    
+    function boot() {
+        if (!hasDAPI()) {
+            console.warn('[DAPI] Not available - running in preview mode');
+            return;
+        }
+        if (dapi.isReady()) {
+            onDAPIReady();
+        } else {
+            dapi.addEventListener('ready', onDAPIReady);
+        }
+    }
+    
+    if (document.readyState === 'complete') {
+        boot();
+    } else {
+        window.addEventListener('load', boot);
+    }
+    
+    // ===== CTA/Click-Through Helper =====
+    // Requirement: Use dapi.openStoreUrl() for click-through actions
+    window.openAppStore = function() {
+        if (hasDAPI()) {
+            console.log('[DAPI] Opening store');
+            dapi.openStoreUrl();
+        } else {
+            console.log('[DAPI] Not available, store click ignored');
+        }
+    };
+    window.install = window.openAppStore;
+    
+    console.log('[DAPI] Wrapper initialized');
+})();
+</script>
+`;
+}
+
+/**
+ * Google Ads HTML5 integration (ExitApi)
+ */
+export const GOOGLE_EXIT_API_URL = 'https://tpc.googlesyndication.com/pagead/gadgets/html5/api/exitapi.js';
+
+const GOOGLE_ORIENTATIONS: Record<AdOrientation, string> = {
+    portrait: 'portrait',
+    landscape: 'landscape',
+    both: 'portrait,landscape'
+};
+
+export function getGoogleAdsExitAPI(variablesJson: string, storeUrls: StoreUrls, { orientation, size }: AdFormat): string {
+    return `${getStoreUrlScript(storeUrls)}
+<meta name="ad.size" content="width=${Math.round(size.width)},height=${Math.round(size.height)}">
+<meta name="ad.orientation" content="${GOOGLE_ORIENTATIONS[orientation]}">
+<script type="text/javascript" src="${GOOGLE_EXIT_API_URL}"></script>
+<script>
+// Google Ads ExitApi Integration
+(function() {
+    // Inject Homa variables
+    window.HOMA_CONFIG = ${variablesJson};
+    
+    // Requirement: Every click-through must go through ExitApi.exit()
+    window.openAppStore = function() {
+        if (typeof ExitApi !== 'undefined') {
+            console.log('[GoogleAds] Exit clicked');
+            ExitApi.exit();
+        } else {
+            console.warn('[GoogleAds] ExitApi not available - running in preview mode');
+        }
+    };
+    window.install = window.openAppStore;
+})();
+</script>
+`;
+}
+
+/**
+ * Meta (Facebook) playable integration
+ */
+export function getMetaPlayableBridge(variablesJson: string, storeUrls: StoreUrls = {}): string {
+    return `${getStoreUrlScript(storeUrls)}
+<script>
+// Meta Playable Ad Integration
+(function() {
+    // Inject Homa variables
+    window.HOMA_CONFIG = ${variablesJson};
+    
+    // Requirement: The store button must call FbPlayableAd.onCTAClick()
+    window.openAppStore = function() {
+        if (typeof FbPlayableAd !== 'undefined') {
+            console.log('[Meta] CTA clicked');
+            FbPlayableAd.onCTAClick();
+        } else {
+            console.warn('[Meta] FbPlayableAd not available - running in preview mode');
+        }
+    };
+    window.install = window.openAppStore;
+})();
+</script>
+`;
+}
+
+/**
+ * MRAID v3.0 integration for Unity Ads playables
+ */
+export function getUnityAdsMRAID(variablesJson: string, storeUrls: StoreUrls = {}): string {
+    return `${getStoreUrlScript(storeUrls)}
+<script src="mraid.js"></script>
+<script>
+// ===== MRAID v3.0 Integration for Unity Ads =====
+(function() {
+    'use strict';
+    
+    // Inject Homa variables
+    window.HOMA_CONFIG = ${variablesJson};
+    
+    function hasMRAID() {
+        return typeof mraid !== 'undefined';
+    }
+    
+    // Requirement: Gameplay and audio start only once the ad is viewable
+    function onViewableChange(viewable) {
+        console.log('[MRAID3] Viewable:', viewable);
+        if (typeof window.onViewableChange === 'function') {
+            window.onViewableChange(viewable);
+        }
+    }
+    
+    function onMRAIDReady() {
+        console.log('[MRAID3] Ready, version:', mraid.getVersion && mraid.getVersion());
+        if (mraid.isViewable()) {
+            onViewableChange(true);
+        }
+        mraid.addEventListener('viewableChange', onViewableChange);
+    }
+    
+    if (hasMRAID()) {
+        if (mraid.getState() === 'loading') {
+            mraid.addEventListener('ready', onMRAIDReady);
+        } else {
+            onMRAIDReady();
+        }
+    } else {
+        console.warn('[MRAID3] Not available - running in preview mode');
+    }
+    
+    // Requirement: Use mraid.open() for click-through actions
+    window.openAppStore = function(url) {
+        const target = url || window.getStoreUrl();
+        if (!target) {
+            console.warn('[MRAID3] No store URL configured');
+        } else if (hasMRAID()) {
+            console.log('[MRAID3] Opening app store:', target);
+            mraid.open(target);
+        } else {
+            console.log('[MRAID3] Not available, store click ignored:', target);
+        }
+    };
+    window.install = window.openAppStore;
+})();
+</script>
+`;
+}
+
+/**
+ * Liftoff / Vungle integration
+ */
+export function getVungleSDK(variablesJson: string, storeUrls: StoreUrls = {}): string {
+    return `${getStoreUrlScript(storeUrls)}
+<script>
+// Liftoff / Vungle Integration
+(function() {
+    // Inject Homa variables
+    window.HOMA_CONFIG = ${variablesJson};
+    
+    // Requirement: CTA must call window.callSDK('download')
+    window.openAppStore = function() {
+        if (typeof window.callSDK === 'function') {
+            console.log('[Vungle] Download clicked');
+            window.callSDK('download');
+        } else {
+            console.warn('[Vungle] callSDK not available - running in preview mode');
+        }
+    };
+    window.install = window.openAppStore;
+    
+    // Signal game end
+    window.gameEnd = function() {
+        console.log('[Vungle] Game ended');
+        if (typeof window.callSDK === 'function') {
+            window.callSDK('complete');
+        }
+    };
+})();
+</script>
+`;
+}
+
+/**
+ * TikTok / Pangle playable-sdk integration
+ */
+export const PANGLE_SDK_URL = 'https://sf16-muse-va.ibytedtos.com/obj/union-fe-nc-i18n/playable/sdk/playable-sdk.js';
+
+export function getPangleSDK(variablesJson: string, storeUrls: StoreUrls = {}): string {
+    return `${getStoreUrlScript(storeUrls)}
+<script src="${PANGLE_SDK_URL}"></script>
+<script>
+// TikTok / Pangle Integration
+(function() {
+    // Inject Homa variables
+    window.HOMA_CONFIG = ${variablesJson};
+    
+    function hasSDK() {
+        return typeof window.playableSDK !== 'undefined';
+    }
+    
+    // Requirement: CTA must call playableSDK.openAppStore()
+    window.openAppStore = function() {
+        if (hasSDK()) {
+            console.log('[Pangle] Install clicked');
+            window.playableSDK.openAppStore();
+        } else {
+            console.warn('[Pangle] playable-sdk not available - running in preview mode');
+        }
+    };
+    window.install = window.openAppStore;
+    
+    // Signal game end
+    window.gameEnd = function() {
+        console.log('[Pangle] Game ended');
+        if (hasSDK()) {
+            window.playableSDK.reportGameEnd();
+        }
+    };
+    
+    window.addEventListener('load', function() {
+        if (hasSDK()) {
+            window.playableSDK.reportGameReady();
+        }
+    });
+})();
+</script>
+`;
+}
@@ -0,0 +1,65 @@
+import type { Concept, PreviewBuild, Variable } from '../types';
+import {
+    findMediaByName,
+    getBlob,
+    getConceptBuildHash,
+    getPreviewBuild,
+    getSessionFile,
+    savePreviewBuild,
+    saveSessionFile,
+    setSessionBuild
+} from '../db';
+import { ASSET_PATH_PREFIX, isAssetVariable } from './ConceptFile';
+import { toUnityConfigJson } from './VariableCodec';
+import { parseProjectZip } from './ZipUtils';
+
+/**
+ * Point a preview session at the build a concept uses, extracting it unless
+ * it already is (another tab or an earlier visit may have done it)
+ */
+export async function loadConceptPreview(sessionId: string, projectId: string, concept: Concept): Promise<PreviewBuild | undefined> {
+    const zipHash = await getConceptBuildHash(projectId, concept);
+    if (!zipHash) return undefined;
+
+    // Claimed first, so an extraction in another tab can't drop it in between
+    await setSessionBuild(sessionId, zipHash);
+    const preview = await getPreviewBuild(projectId, zipHash);
+    if (preview) return preview;
+
+    const zipBlob = await getBlob(zipHash);
+    if (!zipBlob) throw new Error('Project zip not found');
+    const { config, files, entryPoint } = await parseProjectZip(zipBlob as File);
+    const build: PreviewBuild = { projectId, zipHash, entryPoint, variables: config.variables || [] };
+    await savePreviewBuild(build, files);
+    return build;
+}
+
+/**
+ * Write the config sw.js injects into the session's preview page
+ */
+export async function saveSessionConfig(sessionId: string, variables: Variable[]) {
+    // Unity expects: { variables: [{ name: "key", value: "val" }, ...] }
+    const configBlob = new Blob([toUnityConfigJson(variables)], { type: 'application/json' });
+    await saveSessionFile(sessionId, 'homa_config.json', configBlob);
+}
+
+/**
+ * Picked assets only live in the session they were picked in;
+ * copy the media asset variables point at into a new session
+ */
+export async function stageSessionAssets(sessionId: string, variables: Variable[]) {
+    for (const variable of variables.filter(isAssetVariable)) {
+        const path = variable.value;
+        if (typeof path !== 'string' || !path.startsWith(ASSET_PATH_PREFIX)) continue;
+        if (await getSessionFile(sessionId, path)) continue;
+
+        const media = await findMediaByName(path.slice(ASSET_PATH_PREFIX.length));
+        if (media) {
+            await saveSessionFile(sessionId, path, media.blob);
+        }
+    }
+}
+
+export function previewUrl(projectId: string, sessionId: string, entryPoint: string): string {
+    return `/preview/${projectId}/${sessionId}/${entryPoint}`;
+}
@@ -0,0 +1,64 @@
+import { addPreviewSession, deletePreviewSessions, getPreviewSessionIds } from '../db';
+
+/**
+ * Every open preview gets a session: sw.js serves /preview/<projectId>/<sessionId>/...
+ * from the session's overlay files (config, picked assets) before the files of the
+ * build the session points at (extracted once per build and shared between sessions),
+ * so two tabs on the same project don't overwrite each other's config or build.
+ *
+ * A session is alive while its tab holds a Web Lock named after it. The browser releases
+ * the lock when the tab closes, which is how sessions of closed tabs are told apart.
+ */
+
+const LOCK_PREFIX = 'homa-preview-session:';
+
+const releases = new Map<string, () => void>(); // Sessions of this tab, releasing their lock
+
+function canTrackTabs(): boolean {
+    return 'locks' in navigator;
+}
+
+export async function openPreviewSession(projectId: string): Promise<string> {
+    await cleanupPreviewSessions();
+
+    // Lock before the record exists, so a cleanup in another tab never sees it unlocked
+    const sessionId = crypto.randomUUID();
+    if (canTrackTabs()) {
+        await new Promise<void>(acquired => {
+            navigator.locks.request(LOCK_PREFIX + sessionId, () => {
+                acquired();
+                return new Promise<void>(release => releases.set(sessionId, release));
+            });
+        });
+    } else {
+        releases.set(sessionId, () => {});
+    }
+    await addPreviewSession({ id: sessionId, projectId, createdAt: Date.now() });
+    return sessionId;
+}
+
+export async function closePreviewSession(sessionId: string) {
+    releases.get(sessionId)?.();
+    releases.delete(sessionId);
+    await deletePreviewSessions([sessionId]);
+}
+
+/**
+ * Drop the sessions whose tab is gone
+ */
+export async function cleanupPreviewSessions() {
+    if (!canTrackTabs()) return; // Every session could still be open somewhere
+
+    const { held = [] } = await navigator.locks.query();
+    const alive = new Set(held.map(lock => lock.name));
+    const stale = (await getPreviewSessionIds()).filter(sessionId => !alive.has(LOCK_PREFIX + sessionId));
+    if (stale.length > 0) {
+        await deletePreviewSessions(stale);
+    }
+}
+
+// Closing the tab skips React cleanups; a page kept in the back/forward cache may come back
+window.addEventListener('pagehide', (event) => {
+    if (event.persisted || releases.size === 0) return;
+    deletePreviewSessions([...releases.keys()]); // Best effort, the next cleanup catches the rest
+});
@@ -0,0 +1,231 @@
+import JSZip from 'jszip';
+
+/**
+ * Plain tables (rows of text cells) to and from CSV and XLSX.
+ * XLSX support covers the first worksheet's cell text, no formatting or formulas.
+ */
+
+export type Table = string[][];
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// CSV
+
+function csvCell(value: string): string {
+    return /[",;\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(table: Table): Blob {
+    const text = table.map(row => row.map(csvCell).join(',')).join('\r\n');
+    // BOM so Excel opens the file as UTF-8
+    return new Blob(['\uFEFF' + text], { type: 'text/csv;charset=utf-8' });
+}
+
+/**
+ * Excel writes ";" separated CSV in locales with a decimal comma
+ */
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+}
+
+export function parseCsv(text: string): Table {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source);
+    const rows: Table = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
+
+// XLSX
+
+// Control characters are not allowed in XML, except tab, line feed and carriage return
+function isXmlChar(char: string): boolean {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || code === 0x09 || code === 0x0A || code === 0x0D;
+}
+
+function escapeXml(value: string): string {
+    return [...value].filter(isXmlChar).join('')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+function columnIndex(reference: string): number {
+    const letters = reference.replace(/\d+$/, '').toUpperCase();
+    return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function xlsxCell(value: string, reference: string): string {
+    if (value === '') return '';
+    // Numbers as numbers so Excel doesn't flag "number stored as text"
+    if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value) && value.length < 16) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+    }
+    return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+export async function toXlsx(table: Table, sheetName: string = 'Sheet1'): Promise<Blob> {
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>');
+    zip.file('_rels/.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>');
+    zip.file('xl/workbook.xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>');
+    zip.file('xl/_rels/workbook.xml.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>');
+
+    const rows = table.map((row, r) =>
+        `<row r="${r + 1}">${row.map((value, c) => xlsxCell(value, `${columnName(c)}${r + 1}`)).join('')}</row>`
+    );
+    zip.file('xl/worksheets/sheet1.xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${rows.join('')}</sheetData>` +
+        '</worksheet>');
+
+    return zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    });
+}
+
+function parseXml(text: string): Document {
+    return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+/**
+ * Elements by local name, whatever namespace prefix the writer used
+ */
+function elements(parent: Document | Element, name: string): Element[] {
+    return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+function textOf(element: Element): string {
+    return elements(element, 't').map(t => t.textContent ?? '').join('');
+}
+
+/**
+ * Path of the first worksheet, following the workbook relationships
+ */
+async function firstSheetPath(zip: JSZip): Promise<string> {
+    const workbook = await zip.file('xl/workbook.xml')?.async('string');
+    const rels = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+    const sheet = workbook && elements(parseXml(workbook), 'sheet')[0];
+    const relationId = sheet && Array.from(sheet.attributes).find(a => a.localName === 'id')?.value;
+
+    if (rels && relationId) {
+        const target = elements(parseXml(rels), 'Relationship')
+            .find(r => r.getAttribute('Id') === relationId)
+            ?.getAttribute('Target');
+        if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+    return 'xl/worksheets/sheet1.xml';
+}
+
+export async function parseXlsx(file: Blob): Promise<Table> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error('Not an XLSX file');
+    }
+
+    const sharedStringsXml = await zip.file('xl/sharedStrings.xml')?.async('string');
+    const sharedStrings = sharedStringsXml ? elements(parseXml(sharedStringsXml), 'si').map(textOf) : [];
+
+    const sheetPath = await firstSheetPath(zip);
+    const sheetXml = await zip.file(sheetPath)?.async('string');
+    if (!sheetXml) throw new Error('The workbook has no worksheet');
+
+    const table: Table = [];
+    for (const rowElement of elements(parseXml(sheetXml), 'row')) {
+        const rowNumber = Number(rowElement.getAttribute('r')) || table.length + 1;
+        const row: string[] = [];
+        let nextColumn = 0;
+
+        for (const cell of elements(rowElement, 'c')) {
+            const reference = cell.getAttribute('r');
+            const column = reference ? columnIndex(reference) : nextColumn;
+            const rawValue = elements(cell, 'v')[0]?.textContent ?? '';
+            let value: string;
+            switch (cell.getAttribute('t')) {
+                case 's': value = sharedStrings[Number(rawValue)] ?? ''; break;
+                case 'inlineStr': value = textOf(cell); break;
+                case 'b': value = rawValue === '1' ? 'true' : 'false'; break;
+                default: value = rawValue;
+            }
+            while (row.length < column) row.push('');
+            row[column] = value;
+            nextColumn = column + 1;
+        }
+        // Keep row numbers aligned with the sheet for error messages
+        while (table.length < rowNumber - 1) table.push([]);
+        table.push(row);
+    }
+    return table;
+}
+
+export function readTable(file: File): Promise<Table> {
+    return file.name.toLowerCase().endsWith('.xlsx') ? parseXlsx(file) : file.text().then(parseCsv);
+}
@@ -1,5 +1,5 @@
 import JSZip from 'jszip';
-import { getMRAIDWrapper } from './MRAIDWrapper';
+import { detectCompression, decompressBlob, toGzip, type BuildCompression } from './CompressionUtils';
 
 async function blobToBase64(blob: Blob): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -13,43 +13,84 @@ async function blobToBase64(blob: Blob): Promise<string> {
     });
 }
 
-async function findBuildFile(zip: JSZip, pattern: string): Promise<JSZip.JSZipObject | null> {
-    let found: JSZip.JSZipObject | null = null;
-    zip.forEach((relativePath, file) => {
-        if (relativePath.includes('Build/') && relativePath.endsWith(pattern)) {
-            found = file;
+interface BuildFile {
+    file: JSZip.JSZipObject;
+    compression: BuildCompression;
+}
+
+// Unity can emit every build file Gzip-compressed, Brotli-compressed or raw
+const BUILD_FILE_SUFFIXES = ['.gz', '.br', ''];
+
+function findBuildFile(zip: JSZip, pattern: string): BuildFile | null {
+    for (const suffix of BUILD_FILE_SUFFIXES) {
+        let found: JSZip.JSZipObject | null = null;
+        zip.forEach((relativePath, file) => {
+            if (relativePath.includes('Build/') && relativePath.endsWith(pattern + suffix)) {
+                found = file;
+            }
+        });
+        if (found) {
+            return { file: found, compression: detectCompression(pattern + suffix) };
         }
-    });
-    return found;
+    }
+    return null;
+}
+
+/**
+ * Read a build file as Gzip, whatever compression Unity used,
+ * so the inlined bootstrap only has to handle one format
+ */
+async function readAsGzip({ file, compression }: BuildFile): Promise<Blob> {
+    const blob = await file.async('blob');
+    if (compression !== 'gzip') {
+        console.log(`[UnityExporter] Re-encoding ${file.name} (${compression}) as gzip`);
+    }
+    return toGzip(blob, compression);
+}
+
+export type UnityBuildPart = 'loader' | 'framework' | 'wasm' | 'data';
+
+export interface UnityPartSize {
+    compressed: number; // Bytes inside the build ZIP
+    inlined: number; // Bytes once embedded in the HTML
+}
+
+export interface UnitySingleHTML {
+    html: string;
+    parts: Record<UnityBuildPart, UnityPartSize>;
 }
 
 export async function exportUnityToSingleHTML(
     zip: JSZip,
-    varsJson: string,
+    sdkScript: string,
     projectName: string = 'playable'
-): Promise<string> {
+): Promise<UnitySingleHTML> {
     console.log('[UnityExporter] Starting Unity WebGL export...');
 
-    const loaderFile = await findBuildFile(zip, '.loader.js');
-    const frameworkFile = await findBuildFile(zip, '.framework.js.gz');
-    const wasmFile = await findBuildFile(zip, '.wasm.gz');
-    const dataFile = await findBuildFile(zip, '.data.gz');
+    const loaderFile = findBuildFile(zip, '.loader.js');
+    const frameworkFile = findBuildFile(zip, '.framework.js');
+    const wasmFile = findBuildFile(zip, '.wasm');
+    const dataFile = findBuildFile(zip, '.data');
 
     if (!loaderFile || !frameworkFile || !wasmFile || !dataFile) {
         throw new Error('Missing Unity build files');
     }
 
     // Load loader.js
-    let loaderJs = await loaderFile.async('string');
+    const loaderSource = await loaderFile.file.async('blob');
+    const loaderBlob = await decompressBlob(loaderSource, loaderFile.compression);
+    let loaderJs = await loaderBlob.text();
     // Trim whitespace but preserve the code structure
     loaderJs = loaderJs.trim();
 
     // Prevent premature script tag closing if it exists in the code (rare but possible)
     loaderJs = loaderJs.replace(/<\/script>/g, '<\\/script>');
 
-    const frameworkBlob = await frameworkFile.async('blob');
-    const wasmBlob = await wasmFile.async('blob');
-    const dataBlob = await dataFile.async('blob');
+    const [frameworkBlob, wasmBlob, dataBlob] = await Promise.all([
+        readAsGzip(frameworkFile),
+        readAsGzip(wasmFile),
+        readAsGzip(dataFile)
+    ]);
 
     console.log('[UnityExporter] Compressed sizes:', {
         framework: `${(frameworkBlob.size / 1024).toFixed(2)} KB`,
@@ -63,13 +104,18 @@ export async function exportUnityToSingleHTML(
         blobToBase64(dataBlob)
     ]);
 
-    const mraidScript = getMRAIDWrapper(varsJson);
-
     // Minified HTML with loader.js in separate script tag to avoid conflicts
-    const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1,user-scalable=no"><title>${projectName}</title>${mraidScript}<style>*{margin:0;padding:0}html,body,#c{width:100%;height:100%;overflow:hidden;background:#000;display:block}</style></head><body><canvas id="c"></canvas><script>${loaderJs}</script><script>async function d(b,t){const s=atob(b),a=new Uint8Array(s.length);for(let i=0;i<s.length;i++)a[i]=s.charCodeAt(i);const r=await new Response(new Blob([a]).stream().pipeThrough(new DecompressionStream('gzip'))).blob();return URL.createObjectURL(new Blob([r],{type:t}));}(async()=>{try{const[u,v,w]=await Promise.all([d('${f}','application/javascript'),d('${w}','application/wasm'),d('${d}','application/octet-stream')]);createUnityInstance(document.getElementById('c'),{dataUrl:w,frameworkUrl:u,codeUrl:v,streamingAssetsUrl:"StreamingAssets",companyName:"Homa",productName:"${projectName}",productVersion:"1.0"},()=>{}).then(i=>{window.unityInstance=i;}).catch(e=>{alert(e);})}catch(e){alert(e.message);}})();</script></body></html>`;
+    const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1,user-scalable=no"><title>${projectName}</title>${sdkScript}<style>*{margin:0;padding:0}html,body,#c{width:100%;height:100%;overflow:hidden;background:#000;display:block}</style></head><body><canvas id="c"></canvas><script>${loaderJs}</script><script>async function d(b,t){const s=atob(b),a=new Uint8Array(s.length);for(let i=0;i<s.length;i++)a[i]=s.charCodeAt(i);const r=await new Response(new Blob([a]).stream().pipeThrough(new DecompressionStream('gzip'))).blob();return URL.createObjectURL(new Blob([r],{type:t}));}(async()=>{try{const[u,v,w]=await Promise.all([d('${f}','application/javascript'),d('${w}','application/wasm'),d('${d}','application/octet-stream')]);createUnityInstance(document.getElementById('c'),{dataUrl:w,frameworkUrl:u,codeUrl:v,streamingAssetsUrl:"StreamingAssets",companyName:"Homa",productName:"${projectName}",productVersion:"1.0"},()=>{}).then(i=>{window.unityInstance=i;}).catch(e=>{alert(e);})}catch(e){alert(e.message);}})();</script></body></html>`;
 
     const finalSize = html.length / 1024 / 1024;
     console.log('[UnityExporter] Export complete. HTML size:', finalSize.toFixed(2), 'MB');
 
-    return html;
+    const parts: Record<UnityBuildPart, UnityPartSize> = {
+        loader: { compressed: loaderSource.size, inlined: new Blob([loaderJs]).size },
+        framework: { compressed: frameworkBlob.size, inlined: f.length },
+        wasm: { compressed: wasmBlob.size, inlined: w.length },
+        data: { compressed: dataBlob.size, inlined: d.length }
+    };
+
+    return { html, parts };
 }
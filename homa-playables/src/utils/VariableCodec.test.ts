@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { decodeVariableValue, encodeVariableValue } from './VariableCodec';
+
+// Whatever a concept stored, encoding its decoded value again must give the same string
+function roundTrip(type: string, raw: unknown): string {
+    const encoded = encodeVariableValue(type, raw);
+    expect(encodeVariableValue(type, decodeVariableValue(type, encoded))).toBe(encoded);
+    return encoded;
+}
+
+describe('VariableCodec round trips', () => {
+    it('int truncates and clamps to Int32', () => {
+        expect(roundTrip('int', '42')).toBe('42');
+        expect(roundTrip('int', 7.9)).toBe('7');
+        expect(roundTrip('int', '-3.5')).toBe('-3');
+        expect(roundTrip('int', 1e12)).toBe('2147483647');
+        expect(roundTrip('int', '-99999999999')).toBe('-2147483648');
+        expect(roundTrip('int', 'abc')).toBe('0');
+    });
+
+    it('float is formatted with the invariant culture', () => {
+        expect(roundTrip('float', 0.5)).toBe('0.5');
+        expect(roundTrip('float', '1.25')).toBe('1.25');
+        expect(roundTrip('float', '1e3')).toBe('1000');
+        expect(roundTrip('float', -0.001)).toBe('-0.001');
+        expect(roundTrip('float', 'NaN')).toBe('0');
+        expect(roundTrip('float', 1234567.5)).not.toContain(',');
+    });
+
+    it('bool reads true/false in any case, and numbers', () => {
+        expect(roundTrip('bool', true)).toBe('true');
+        expect(roundTrip('bool', 'TRUE')).toBe('true');
+        expect(roundTrip('bool', 'False')).toBe('false');
+        expect(roundTrip('bool', 1)).toBe('true');
+        expect(roundTrip('bool', 0)).toBe('false');
+        expect(roundTrip('bool', 'yes')).toBe('false');
+    });
+
+    it('vector3 reads JSON and Unity\'s "(x, y, z)"', () => {
+        const json = '{"x":1,"y":2.5,"z":-3}';
+        expect(roundTrip('vector3', json)).toBe(json);
+        expect(roundTrip('vector3', { x: 1, y: 2.5, z: -3 })).toBe(json);
+        expect(roundTrip('vector3', '(1.00, 2.50, -3.00)')).toBe(json);
+        expect(decodeVariableValue('vector3', '(1.00, 2.50, -3.00)')).toEqual({ x: 1, y: 2.5, z: -3 });
+        expect(roundTrip('vector3', 'nonsense')).toBe('{"x":0,"y":0,"z":0}');
+    });
+
+    it('color is normalized to #RRGGBBAA', () => {
+        expect(roundTrip('color', '#f0a')).toBe('#FF00AAFF');
+        expect(roundTrip('color', '#f0a8')).toBe('#FF00AA88');
+        expect(roundTrip('color', 'ff8800')).toBe('#FF8800FF');
+        expect(roundTrip('color', '#12345678')).toBe('#12345678');
+        expect(roundTrip('color', 'red')).toBe('red');
+        expect(roundTrip('color', '')).toBe('#000000FF');
+    });
+
+    it('enum keeps the member name', () => {
+        expect(roundTrip('enum', 'Hard')).toBe('Hard');
+        expect(roundTrip('enum', undefined)).toBe('');
+    });
+
+    it('string is kept as is', () => {
+        expect(roundTrip('string', 'Play now!')).toBe('Play now!');
+        expect(roundTrip('string', '  padded  ')).toBe('  padded  ');
+        expect(roundTrip('string', 12)).toBe('12');
+        expect(roundTrip('string', null)).toBe('');
+    });
+
+    it('Asset:* values are preview paths kept as strings', () => {
+        expect(roundTrip('Asset:Texture2D', 'assets/logo.png')).toBe('assets/logo.png');
+        expect(roundTrip('Asset:AudioClip', 'assets/music track.mp3')).toBe('assets/music track.mp3');
+        expect(roundTrip('Asset:Sprite', undefined)).toBe('');
+    });
+});
@@ -0,0 +1,221 @@
+import type { Variable, VariableType } from '../types';
+
+/**
+ * Typed conversion between inspector values and the strings HomaConfigLoader.cs parses.
+ * decode() accepts a Unity string or an already-typed value (older concepts store both),
+ * so encode(decode(x)) is stable for every type.
+ */
+
+export interface Vector3Value {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export type VariableValue = number | boolean | string | Vector3Value;
+
+interface VariableCodec<T extends VariableValue> {
+    /** Unity string or inspector value → typed inspector value */
+    decode(raw: unknown): T;
+    /** Typed inspector value → string in the format Unity parses */
+    format(value: T): string;
+}
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+
+function toNumber(raw: unknown): number {
+    const n = typeof raw === 'number' ? raw : parseFloat(String(raw ?? '').trim());
+    return Number.isFinite(n) ? n : 0;
+}
+
+// int.TryParse: plain integer, rejects decimals and values outside Int32
+const intCodec: VariableCodec<number> = {
+    decode(raw) {
+        return Math.min(INT32_MAX, Math.max(INT32_MIN, Math.trunc(toNumber(raw))));
+    },
+    format(value) {
+        return String(value);
+    }
+};
+
+// float.TryParse with NumberStyles.Float + InvariantCulture: "." decimals, exponents allowed
+const floatCodec: VariableCodec<number> = {
+    decode(raw) {
+        return toNumber(raw);
+    },
+    format(value) {
+        return String(value);
+    }
+};
+
+// bool.TryParse: "true" / "false", case-insensitive
+const boolCodec: VariableCodec<boolean> = {
+    decode(raw) {
+        if (typeof raw === 'boolean') return raw;
+        if (typeof raw === 'number') return raw !== 0;
+        return String(raw ?? '').trim().toLowerCase() === 'true';
+    },
+    format(value) {
+        return value ? 'true' : 'false';
+    }
+};
+
+// JsonUtility.FromJson<Vector3>: {"x":1,"y":2,"z":3}
+const vector3Codec: VariableCodec<Vector3Value> = {
+    decode(raw) {
+        let source: unknown = raw;
+        if (typeof raw === 'string') {
+            try {
+                source = JSON.parse(raw);
+            } catch {
+                // Unity's Vector3.ToString() format: "(1.00, 2.00, 3.00)"
+                const parts = raw.replace(/[()]/g, '').split(',');
+                source = parts.length === 3 ? { x: parts[0], y: parts[1], z: parts[2] } : null;
+            }
+        }
+        const vec = (source && typeof source === 'object' ? source : {}) as Record<string, unknown>;
+        return { x: toNumber(vec.x), y: toNumber(vec.y), z: toNumber(vec.z) };
+    },
+    format(value) {
+        return JSON.stringify({ x: value.x, y: value.y, z: value.z });
+    }
+};
+
+// ColorUtility.TryParseHtmlString: normalized to "#RRGGBBAA", named colors pass through
+const colorCodec: VariableCodec<string> = {
+    decode(raw) {
+        const text = String(raw ?? '').trim();
+        const hex = text.replace(/^#/, '');
+        if (!/^[0-9a-f]+$/i.test(hex) || ![3, 4, 6, 8].includes(hex.length)) {
+            return text || '#000000FF';
+        }
+
+        const full = hex.length <= 4 ? hex.split('').map(c => c + c).join('') : hex;
+        return `#${full.length === 6 ? full + 'FF' : full}`.toUpperCase();
+    },
+    format(value) {
+        return value;
+    }
+};
+
+// Enum.Parse on the member name, strings as-is
+const stringCodec: VariableCodec<string> = {
+    decode(raw) {
+        return raw === undefined || raw === null ? '' : String(raw);
+    },
+    format(value) {
+        return value;
+    }
+};
+
+const CODECS: Record<VariableType, VariableCodec<VariableValue>> = {
+    int: intCodec,
+    float: floatCodec,
+    bool: boolCodec,
+    vector3: vector3Codec,
+    color: colorCodec,
+    enum: stringCodec,
+    string: stringCodec
+};
+
+/**
+ * Asset variables ("Asset:<TypeName>") and unknown types are plain strings
+ */
+function getCodec(type: string): VariableCodec<VariableValue> {
+    return CODECS[type as VariableType] || stringCodec;
+}
+
+export function decodeVariableValue(type: string, raw: unknown): VariableValue {
+    return getCodec(type).decode(raw);
+}
+
+export function encodeVariableValue(type: string, value: unknown): string {
+    const codec = getCodec(type);
+    return codec.format(codec.decode(value));
+}
+
+/**
+ * Value as text for people to read and edit. Vectors are "x, y, z"
+ * rather than JSON; decode() reads both.
+ */
+export function formatVariableText(type: string, value: unknown): string {
+    const decoded = decodeVariableValue(type, value);
+    if (type === 'vector3') {
+        const { x, y, z } = decoded as Vector3Value;
+        return `${x}, ${y}, ${z}`;
+    }
+    return String(decoded);
+}
+
+/**
+ * Check text typed by a user (spreadsheet cell, list entry) against a variable's
+ * type, range and options. Returns the problem, or undefined when decode() can take it as is.
+ */
+export function validateVariableText(variable: Pick<Variable, 'type' | 'min' | 'max' | 'options'>, text: string): string | undefined {
+    const inRange = (n: number) =>
+        variable.min === undefined || variable.max === undefined || variable.min >= variable.max ||
+        (n >= variable.min && n <= variable.max);
+
+    switch (variable.type) {
+        case 'int':
+            if (!/^[+-]?\d+$/.test(text)) return `"${text}" is not a whole number`;
+            if (!inRange(Number(text))) return `${text} is outside [${variable.min}, ${variable.max}]`;
+            return undefined;
+        case 'float':
+            if (/^[+-]?\d+,\d+$/.test(text)) return `"${text}" uses a decimal comma, use a point`;
+            if (!Number.isFinite(Number(text))) return `"${text}" is not a number`;
+            if (!inRange(Number(text))) return `${text} is outside [${variable.min}, ${variable.max}]`;
+            return undefined;
+        case 'bool':
+            return ['true', 'false'].includes(text.toLowerCase()) ? undefined : `"${text}" is not true or false`;
+        case 'enum':
+            return (variable.options || []).includes(text)
+                ? undefined
+                : `"${text}" is not one of ${(variable.options || []).join(', ')}`;
+        case 'vector3': {
+            const parts = text.replace(/[()]/g, '').split(',').map(p => p.trim());
+            const valid = parts.length === 3 && parts.every(p => p !== '' && Number.isFinite(Number(p)));
+            return valid || text.startsWith('{') ? undefined : `"${text}" is not a vector, use x, y, z`;
+        }
+        case 'color':
+            return /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(text) || /^[a-z]+$/i.test(text)
+                ? undefined
+                : `"${text}" is not a color, use #RRGGBB or #RRGGBBAA`;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Decode the string values of an imported homa_config.json into inspector values
+ */
+export function decodeVariables(variables: Variable[]): Variable[] {
+    return variables.map(v => ({
+        ...v,
+        value: decodeVariableValue(v.type, v.value),
+        defaultValue: v.defaultValue === undefined ? undefined : decodeVariableValue(v.type, v.defaultValue)
+    }));
+}
+
+/**
+ * Build variables with a concept's values applied
+ */
+export function mergeConceptValues(buildVariables: Variable[], values: Record<string, unknown>): Variable[] {
+    return buildVariables.map(v => values[v.name] !== undefined
+        ? { ...v, value: decodeVariableValue(v.type, values[v.name]) }
+        : v
+    );
+}
+
+/**
+ * Unity payload: {variables: [{name, value}]} with every value as a typed string
+ */
+export function toUnityConfigJson(variables: Pick<Variable, 'name' | 'type' | 'value'>[]): string {
+    return JSON.stringify({
+        variables: variables.map(v => ({
+            name: v.name,
+            value: encodeVariableValue(v.type, v.value)
+        }))
+    });
+}
@@ -0,0 +1,213 @@
+import type { Concept, Variable } from '../types';
+import {
+    decodeVariableValue,
+    encodeVariableValue,
+    formatVariableText,
+    validateVariableText,
+    type VariableValue
+} from './VariableCodec';
+
+/**
+ * Concepts for every combination of candidate values (the variant matrix):
+ * one axis per variable, minus excluded combinations, up to a limit
+ */
+
+export type AxisSource = 'options' | 'steps' | 'list';
+
+export interface AxisSpec {
+    variable: string;
+    source: AxisSource;
+    from?: number; // steps
+    to?: number;
+    step?: number;
+    list?: string; // One value per line
+}
+
+export interface ExclusionCondition {
+    variable: string;
+    value: string; // Encoded with encodeVariableValue
+}
+
+/**
+ * A combination is excluded when it matches every condition of a rule
+ */
+export interface ExclusionRule {
+    conditions: ExclusionCondition[];
+}
+
+export interface ResolvedAxis {
+    variable: Variable;
+    values: VariableValue[];
+}
+
+export interface VariantPreview {
+    combinations: Record<string, VariableValue>[];
+    total: number; // Size of the full cartesian product
+    excluded: number; // Among the combinations looked at
+    truncated: boolean; // More combinations remain past the limit
+}
+
+export const MAX_AXIS_VALUES = 50;
+const MAX_SCANNED = 100000; // Bounds the work when exclusions reject most combinations
+
+export function defaultAxisSource(variable: Variable): AxisSource {
+    if (variable.type === 'enum' || variable.type === 'bool') return 'options';
+    if ((variable.type === 'int' || variable.type === 'float') && variable.min !== undefined && variable.max !== undefined) {
+        return 'steps';
+    }
+    return 'list';
+}
+
+export function defaultAxisSpec(variable: Variable): AxisSpec {
+    const source = defaultAxisSource(variable);
+    return {
+        variable: variable.name,
+        source,
+        from: variable.min,
+        to: variable.max,
+        step: variable.step ?? (variable.type === 'int' ? 1 : undefined),
+        list: source === 'list' ? formatVariableText(variable.type, variable.value) : ''
+    };
+}
+
+function numericSteps(variable: Variable, spec: AxisSpec): { values: VariableValue[]; error?: string } {
+    const { from, to } = spec;
+    const step = spec.step ?? (to !== undefined && from !== undefined ? (to - from) / 4 : undefined);
+    if (from === undefined || to === undefined || step === undefined || !Number.isFinite(from + to + step)) {
+        return { values: [], error: 'Set from, to and step' };
+    }
+    if (step <= 0 || to < from) return { values: [], error: 'Step must be positive and "to" at least "from"' };
+    if ((to - from) / step + 1 > MAX_AXIS_VALUES) {
+        return { values: [], error: `More than ${MAX_AXIS_VALUES} steps, use a larger step` };
+    }
+
+    const values: VariableValue[] = [];
+    // Index-based to avoid accumulating float error
+    for (let i = 0; from + i * step <= to + step * 1e-9; i++) {
+        const n = Number((from + i * step).toPrecision(12));
+        values.push(decodeVariableValue(variable.type, n));
+    }
+    return { values: [...new Set(values)] };
+}
+
+/**
+ * Candidate values of an axis, or why there are none
+ */
+export function resolveAxisValues(variable: Variable, spec: AxisSpec): { values: VariableValue[]; error?: string } {
+    switch (spec.source) {
+        case 'options':
+            if (variable.type === 'bool') return { values: [true, false] };
+            if (variable.type === 'enum') return { values: variable.options || [] };
+            return { values: [], error: 'Only enums and booleans have options' };
+        case 'steps':
+            if (variable.type !== 'int' && variable.type !== 'float') {
+                return { values: [], error: 'Only numbers can be stepped' };
+            }
+            return numericSteps(variable, spec);
+        case 'list': {
+            // Lines rather than commas: vectors and texts contain commas
+            const lines = (spec.list ?? '').split('\n').map(line => line.trim()).filter(Boolean);
+            const problems = lines
+                .map(line => validateVariableText(variable, line))
+                .filter((problem): problem is string => !!problem);
+            if (problems.length > 0) return { values: [], error: problems[0] };
+            if (lines.length > MAX_AXIS_VALUES) return { values: [], error: `More than ${MAX_AXIS_VALUES} values` };
+
+            const encoded = new Map<string, VariableValue>();
+            for (const line of lines) {
+                const value = decodeVariableValue(variable.type, line);
+                encoded.set(encodeVariableValue(variable.type, value), value);
+            }
+            return { values: [...encoded.values()] };
+        }
+    }
+}
+
+function isExcluded(combination: Record<string, VariableValue>, axes: ResolvedAxis[], rules: ExclusionRule[]): boolean {
+    return rules.some(rule =>
+        rule.conditions.length > 0 &&
+        rule.conditions.every(condition => {
+            const axis = axes.find(a => a.variable.name === condition.variable);
+            return !!axis && encodeVariableValue(axis.variable.type, combination[condition.variable]) === condition.value;
+        })
+    );
+}
+
+/**
+ * Combinations in odometer order (the last axis changes fastest)
+ */
+export function generateVariants(axes: ResolvedAxis[], rules: ExclusionRule[], limit: number): VariantPreview {
+    const active = axes.filter(a => a.values.length > 0);
+    if (active.length === 0) return { combinations: [], total: 0, excluded: 0, truncated: false };
+
+    const total = active.reduce((product, axis) => product * axis.values.length, 1);
+    const combinations: Record<string, VariableValue>[] = [];
+    let excluded = 0;
+    let index = 0;
+
+    for (; index < total && index < MAX_SCANNED && combinations.length < limit; index++) {
+        const combination: Record<string, VariableValue> = {};
+        let rest = index;
+        for (let a = active.length - 1; a >= 0; a--) {
+            const axis = active[a];
+            combination[axis.variable.name] = axis.values[rest % axis.values.length];
+            rest = Math.floor(rest / axis.values.length);
+        }
+
+        if (isExcluded(combination, active, rules)) {
+            excluded++;
+        } else {
+            combinations.push(combination);
+        }
+    }
+
+    return { combinations, total, excluded, truncated: index < total };
+}
+
+/**
+ * "{n}" is the 1-based position, "{Variable}" the value of that axis
+ */
+export function variantName(template: string, combination: Record<string, VariableValue>, axes: ResolvedAxis[], position: number): string {
+    return template.replace(/\{([^}]+)\}/g, (token, key: string) => {
+        if (key === 'n') return String(position);
+        const axis = axes.find(a => a.variable.name === key);
+        return axis && key in combination ? formatVariableText(axis.variable.type, combination[key]) : token;
+    }).trim();
+}
+
+export function defaultNameTemplate(axes: ResolvedAxis[]): string {
+    return axes.map(a => `{${a.variable.name}}`).join(' / ') || 'Variant {n}';
+}
+
+/**
+ * New concepts for the combinations, on top of an optional base concept's values.
+ * Names already taken in the project get a numeric suffix.
+ */
+export function createVariantConcepts(
+    projectId: string,
+    combinations: Record<string, VariableValue>[],
+    axes: ResolvedAxis[],
+    nameTemplate: string,
+    existingNames: string[],
+    base?: Concept
+): Concept[] {
+    const taken = new Set(existingNames);
+    const now = Date.now();
+
+    return combinations.map((combination, index) => {
+        const baseName = variantName(nameTemplate, combination, axes, index + 1) || `Variant ${index + 1}`;
+        let name = baseName;
+        for (let suffix = 2; taken.has(name); suffix++) name = `${baseName} (${suffix})`;
+        taken.add(name);
+
+        return {
+            id: crypto.randomUUID(),
+            projectId,
+            name,
+            createdAt: now,
+            updatedAt: now,
+            values: { ...(base?.values ?? {}), ...combination },
+            variant: combination
+        };
+    });
+}
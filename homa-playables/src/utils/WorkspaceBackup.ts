@@ -0,0 +1,335 @@
+import JSZip from 'jszip';
+
+import {
+    getBlob,
+    getWorkspaceRecords,
+    restoreWorkspace,
+    type WorkspaceRecords,
+    type WorkspaceRestoreMode
+} from '../db';
+import { hashBlob } from './HashUtils';
+
+/**
+ * Whole-workspace backup: one ZIP with a manifest, the records of every
+ * store as JSON and each stored file once under blobs/<sha256>
+ */
+
+export const WORKSPACE_FORMAT = 'homa-workspace';
+export const WORKSPACE_VERSION = 1;
+
+const RECORD_FILES: Record<keyof WorkspaceRecords, string> = {
+    projects: 'data/projects.json',
+    projectFiles: 'data/projectFiles.json',
+    buildRevisions: 'data/buildRevisions.json',
+    conceptRevisions: 'data/conceptRevisions.json',
+    media: 'data/media.json',
+    folders: 'data/folders.json'
+};
+
+// Added after the first backups were written, read as empty when absent
+const OPTIONAL_RECORDS: (keyof WorkspaceRecords)[] = ['conceptRevisions'];
+
+export interface WorkspaceBlobEntry {
+    hash: string;
+    size: number;
+    type: string;
+}
+
+export interface WorkspaceManifest {
+    format: typeof WORKSPACE_FORMAT;
+    version: number;
+    createdAt: string;
+    counts: {
+        projects: number;
+        concepts: number;
+        builds: number;
+        media: number;
+        folders: number;
+    };
+    blobs: WorkspaceBlobEntry[];
+}
+
+export interface WorkspaceArchive {
+    manifest: WorkspaceManifest;
+    records: WorkspaceRecords;
+    blobs: Map<string, Blob>;
+}
+
+/**
+ * How merge handles incoming records whose id already exists
+ */
+export type ConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface WorkspaceConflicts {
+    projects: string[]; // Names of the incoming records
+    folders: string[];
+    media: string[];
+}
+
+export interface WorkspaceImportResult {
+    projects: number;
+    folders: number;
+    media: number;
+    skipped: number;
+}
+
+function referencedHashes(records: WorkspaceRecords): string[] {
+    return [...new Set([
+        ...records.projectFiles.map(f => f.zipHash),
+        ...records.buildRevisions.map(r => r.hash),
+        ...records.media.map(m => m.blobHash)
+    ])];
+}
+
+/**
+ * Stream a backup of the whole workspace. Stored files are read one at a time
+ * as the stream is consumed, so the archive is never held in memory whole.
+ */
+export async function exportWorkspace(onProgress?: (percent: number) => void): Promise<ReadableStream<Uint8Array>> {
+    const records = await getWorkspaceRecords();
+    const zip = new JSZip();
+    const blobs: WorkspaceBlobEntry[] = [];
+
+    for (const hash of referencedHashes(records)) {
+        const blob = await getBlob(hash);
+        if (!blob) {
+            console.warn(`[Workspace] Blob ${hash} is missing and was left out`);
+            continue;
+        }
+        blobs.push({ hash, size: blob.size, type: blob.type });
+        // Builds are already compressed
+        zip.file(`blobs/${hash}`, blob, { compression: 'STORE' });
+    }
+
+    for (const [store, path] of Object.entries(RECORD_FILES)) {
+        zip.file(path, JSON.stringify(records[store as keyof WorkspaceRecords]));
+    }
+
+    const manifest: WorkspaceManifest = {
+        format: WORKSPACE_FORMAT,
+        version: WORKSPACE_VERSION,
+        createdAt: new Date().toISOString(),
+        counts: {
+            projects: records.projects.length,
+            concepts: records.projects.reduce((sum, p) => sum + (p.concepts || []).length, 0),
+            builds: records.buildRevisions.length,
+            media: records.media.length,
+            folders: records.folders.length
+        },
+        blobs
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    const helper = zip.generateInternalStream({
+        type: 'uint8array',
+        compression: 'DEFLATE',
+        compressionOptions: { level: 6 },
+        streamFiles: true
+    });
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            helper
+                .on('data', (chunk, metadata) => {
+                    controller.enqueue(chunk);
+                    onProgress?.(metadata.percent);
+                    // Wait for the reader to catch up
+                    if ((controller.desiredSize ?? 0) <= 0) helper.pause();
+                })
+                .on('error', err => controller.error(err))
+                .on('end', () => controller.close());
+        },
+        pull() {
+            helper.resume();
+        },
+        cancel() {
+            helper.pause();
+        }
+    }, new CountQueuingStrategy({ highWaterMark: 16 }));
+}
+
+/**
+ * Read and verify a workspace archive. Throws when it is not one, comes from
+ * a newer version, or a file is missing or corrupted.
+ */
+export async function readWorkspaceArchive(file: Blob): Promise<WorkspaceArchive> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error('Not a ZIP archive');
+    }
+
+    const manifestFile = zip.file('manifest.json');
+    if (!manifestFile) throw new Error('No manifest.json, this is not a workspace backup');
+    const manifest = JSON.parse(await manifestFile.async('string')) as WorkspaceManifest;
+    if (manifest.format !== WORKSPACE_FORMAT) {
+        throw new Error('manifest.json does not describe a workspace backup');
+    }
+    if (manifest.version > WORKSPACE_VERSION) {
+        throw new Error(`Backup format ${manifest.version} is newer than this tool supports (${WORKSPACE_VERSION})`);
+    }
+
+    const records = {} as WorkspaceRecords;
+    for (const [store, path] of Object.entries(RECORD_FILES)) {
+        const recordFile = zip.file(path);
+        if (!recordFile) {
+            if (!OPTIONAL_RECORDS.includes(store as keyof WorkspaceRecords)) throw new Error(`${path} is missing`);
+            Object.assign(records, { [store]: [] });
+            continue;
+        }
+        Object.assign(records, { [store]: JSON.parse(await recordFile.async('string')) });
+    }
+
+    const blobs = new Map<string, Blob>();
+    const types = new Map(manifest.blobs.map(b => [b.hash, b.type]));
+    for (const hash of referencedHashes(records)) {
+        const blobFile = zip.file(`blobs/${hash}`);
+        if (!blobFile) throw new Error(`Stored file ${hash} is missing`);
+        const blob = new Blob([await blobFile.async('arraybuffer')], { type: types.get(hash) ?? '' });
+        if (await hashBlob(blob) !== hash) throw new Error(`Stored file ${hash} is corrupted`);
+        blobs.set(hash, blob);
+    }
+
+    return { manifest, records, blobs };
+}
+
+export function findConflicts(incoming: WorkspaceRecords, current: WorkspaceRecords): WorkspaceConflicts {
+    const projectIds = new Set(current.projects.map(p => p.id));
+    const folderIds = new Set(current.folders.map(f => f.id));
+    const mediaIds = new Set(current.media.map(m => m.id));
+    return {
+        projects: incoming.projects.filter(p => projectIds.has(p.id)).map(p => p.name),
+        folders: incoming.folders.filter(f => folderIds.has(f.id)).map(f => f.name),
+        media: incoming.media.filter(m => mediaIds.has(m.id)).map(m => m.name)
+    };
+}
+
+/**
+ * Apply a conflict strategy to the incoming records.
+ * Duplicates get fresh ids, and every reference to them is rewritten.
+ */
+function resolveConflicts(incoming: WorkspaceRecords, current: WorkspaceRecords, strategy: ConflictStrategy): { records: WorkspaceRecords; skipped: number } {
+    if (strategy === 'overwrite') return { records: incoming, skipped: 0 };
+
+    const projectIds = new Set(current.projects.map(p => p.id));
+    const folderIds = new Set(current.folders.map(f => f.id));
+    const mediaIds = new Set(current.media.map(m => m.id));
+    const conflicting = {
+        projects: incoming.projects.filter(p => projectIds.has(p.id)),
+        folders: incoming.folders.filter(f => folderIds.has(f.id)),
+        media: incoming.media.filter(m => mediaIds.has(m.id))
+    };
+
+    if (strategy === 'skip') {
+        const skippedProjects = new Set(conflicting.projects.map(p => p.id));
+        return {
+            records: {
+                projects: incoming.projects.filter(p => !skippedProjects.has(p.id)),
+                projectFiles: incoming.projectFiles.filter(f => !skippedProjects.has(f.projectId)),
+                buildRevisions: incoming.buildRevisions.filter(r => !skippedProjects.has(r.projectId)),
+                conceptRevisions: incoming.conceptRevisions.filter(r => !skippedProjects.has(r.projectId)),
+                // Media in a skipped folder lands in the existing folder with that id
+                folders: incoming.folders.filter(f => !folderIds.has(f.id)),
+                media: incoming.media.filter(m => !mediaIds.has(m.id))
+            },
+            skipped: conflicting.projects.length + conflicting.folders.length + conflicting.media.length
+        };
+    }
+
+    // Old id -> new id for every duplicated record
+    const newIds = new Map<string, string>();
+    const remap = (id: string) => newIds.get(id) ?? id;
+    const remapOptional = <T extends string | null | undefined>(id: T): T => (id ? remap(id) : id) as T;
+
+    for (const project of conflicting.projects) {
+        newIds.set(project.id, crypto.randomUUID());
+        // Concept revisions are looked up by concept id, so the copies need their own
+        for (const concept of project.concepts || []) {
+            newIds.set(concept.id, crypto.randomUUID());
+        }
+        for (const revision of incoming.buildRevisions.filter(r => r.projectId === project.id)) {
+            newIds.set(revision.id, crypto.randomUUID());
+        }
+        for (const revision of incoming.conceptRevisions.filter(r => r.projectId === project.id)) {
+            newIds.set(revision.id, crypto.randomUUID());
+        }
+    }
+    for (const folder of conflicting.folders) newIds.set(folder.id, crypto.randomUUID());
+    for (const item of conflicting.media) newIds.set(item.id, crypto.randomUUID());
+
+    const duplicated = new Set(conflicting.projects.map(p => p.id));
+    return {
+        records: {
+            projects: incoming.projects.map(project => ({
+                ...project,
+                id: remap(project.id),
+                name: duplicated.has(project.id) ? `${project.name} (imported)` : project.name,
+                currentRevisionId: remapOptional(project.currentRevisionId),
+                concepts: (project.concepts || []).map(concept => ({
+                    ...concept,
+                    id: remap(concept.id),
+                    projectId: remap(concept.projectId),
+                    buildRevisionId: remapOptional(concept.buildRevisionId)
+                }))
+            })),
+            projectFiles: incoming.projectFiles.map(record => ({
+                ...record,
+                projectId: remap(record.projectId),
+                previous: record.previous && {
+                    ...record.previous,
+                    revisionId: remap(record.previous.revisionId),
+                    concepts: record.previous.concepts.map(concept => ({
+                        ...concept,
+                        id: remap(concept.id),
+                        projectId: remap(concept.projectId),
+                        buildRevisionId: remapOptional(concept.buildRevisionId)
+                    })),
+                    migrated: record.previous.migrated && Object.fromEntries(
+                        Object.entries(record.previous.migrated).map(([conceptId, values]) => [remap(conceptId), values])
+                    )
+                }
+            })),
+            buildRevisions: incoming.buildRevisions.map(revision => ({
+                ...revision,
+                id: remap(revision.id),
+                projectId: remap(revision.projectId)
+            })),
+            conceptRevisions: incoming.conceptRevisions.map(revision => ({
+                ...revision,
+                id: remap(revision.id),
+                projectId: remap(revision.projectId),
+                conceptId: remap(revision.conceptId),
+                restoredFromId: remapOptional(revision.restoredFromId)
+            })),
+            folders: incoming.folders.map(folder => ({
+                ...folder,
+                id: remap(folder.id),
+                parentId: remapOptional(folder.parentId)
+            })),
+            media: incoming.media.map(item => ({
+                ...item,
+                id: remap(item.id),
+                folderId: remapOptional(item.folderId)
+            }))
+        },
+        skipped: 0
+    };
+}
+
+export async function importWorkspace(
+    archive: WorkspaceArchive,
+    mode: WorkspaceRestoreMode,
+    strategy: ConflictStrategy = 'duplicate'
+): Promise<WorkspaceImportResult> {
+    const { records, skipped } = mode === 'replace'
+        ? { records: archive.records, skipped: 0 }
+        : resolveConflicts(archive.records, await getWorkspaceRecords(), strategy);
+
+    await restoreWorkspace(records, archive.blobs, mode);
+    return {
+        projects: records.projects.length,
+        folders: records.folders.length,
+        media: records.media.length,
+        skipped
+    };
+}
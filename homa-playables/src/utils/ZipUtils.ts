@@ -1,11 +1,11 @@
 import JSZip from 'jszip';
-import type { Variable } from '../types';
+import { detectCompression, decompressBlob } from './CompressionUtils';
+import { parseHomaConfig, type ConfigIssue, type HomaConfig } from './ConfigSchema';
 
 export interface ParsedProject {
-    config: {
-        version: string;
-        variables: Variable[];
-    };
+    config: HomaConfig;
+    issues: ConfigIssue[]; // Schema errors (dropped variables) and warnings
+    migratedFrom?: string; // Config version before migration
     files: Record<string, Blob>;
     entryPoint: string;
 }
@@ -20,7 +20,7 @@ export async function parseProjectZip(file: File): Promise<ParsedProject> {
     }
 
     const configText = await configFile.async('string');
-    const config = JSON.parse(configText);
+    const { config, issues, migratedFrom } = parseHomaConfig(configText);
 
     // 2. Extract all files to Blobs
     const files: Record<string, Blob> = {};
@@ -45,32 +45,14 @@ export async function parseProjectZip(file: File): Promise<ParsedProject> {
                 else if (cleanPath.endsWith('.json')) type = 'application/json';
                 else if (cleanPath.endsWith('.data')) type = 'application/octet-stream';
 
-                // Handle Gzip Decompression (.gz files)
-                if (relativePath.endsWith('.gz')) {
-                    console.log(`[ZipUtils] Decompressing gzip: ${relativePath}`);
+                // Handle Gzip / Brotli Decompression (.gz / .br files)
+                const compression = detectCompression(relativePath);
+                if (compression !== 'none') {
+                    console.log(`[ZipUtils] Decompressing ${compression}: ${relativePath}`);
                     try {
-                        const ds = new DecompressionStream('gzip');
-                        const decompressedStream = blob.stream().pipeThrough(ds);
-                        blob = await new Response(decompressedStream).blob();
+                        blob = await decompressBlob(blob, compression);
                     } catch (e) {
-                        console.warn(`[ZipUtils] Failed to decompress gzip ${relativePath}, storing as is.`, e);
-                    }
-                }
-
-                // Handle Brotli Decompression (.br files)
-                if (relativePath.endsWith('.br')) {
-                    console.log(`[ZipUtils] Decompressing brotli: ${relativePath}`);
-                    try {
-                        // Note: DecompressionStream with 'deflate-raw' is a workaround
-                        // Browser support for 'br' in DecompressionStream is limited
-                        // We'll try, but may need to serve compressed if it fails
-                        const ds = new DecompressionStream('deflate-raw');
-                        const decompressedStream = blob.stream().pipeThrough(ds);
-                        blob = await new Response(decompressedStream).blob();
-                    } catch (e) {
-                        console.warn(`[ZipUtils] Brotli decompression not supported or failed for ${relativePath}. Serving compressed.`, e);
-                        // If decompression fails, we'll serve the compressed file
-                        // The browser will handle it if Content-Encoding is set properly
+                        throw new Error(`Failed to decompress ${relativePath} (${compression}): ${e instanceof Error ? e.message : String(e)}`);
                     }
                 }
 
@@ -114,5 +96,5 @@ export async function parseProjectZip(file: File): Promise<ParsedProject> {
         files[entryPoint] = new Blob([indexHtml], { type: 'text/html' });
     }
 
-    return { config, files, entryPoint };
+    return { config, issues, migratedFrom, files, entryPoint };
 }
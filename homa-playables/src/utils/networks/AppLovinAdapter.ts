@@ -0,0 +1,26 @@
+import { getMRAIDWrapper } from '../MRAIDWrapper';
+import { buildSingleHTML, type NetworkAdapter } from './NetworkAdapter';
+
+/**
+ * AppLovin Export
+ * Format: Single HTML file with ALL assets Base64-encoded
+ * Max size: 5MB
+ * CRITICAL: Must include MRAID v2.0 integration
+ */
+export const appLovinAdapter: NetworkAdapter = {
+    id: 'applovin',
+    label: 'AppLovin',
+    format: 'html',
+    maxSizeBytes: 5 * 1024 * 1024,
+    compliance: { requiresMraid: true },
+
+    getSDKScript: getMRAIDWrapper,
+
+    getFileName(baseName) {
+        return `${baseName}-applovin.html`;
+    },
+
+    build(context) {
+        return buildSingleHTML(this, context);
+    }
+};
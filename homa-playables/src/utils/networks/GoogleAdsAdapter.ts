@@ -0,0 +1,64 @@
+import JSZip from 'jszip';
+
+import { formatFileSize } from '../AssetInliner';
+import { findRemoteLoads } from '../ComplianceChecker';
+import { getGoogleAdsExitAPI, GOOGLE_EXIT_API_URL } from '../MRAIDWrapper';
+import { buildZip, type NetworkAdapter } from './NetworkAdapter';
+
+const MAX_FILES = 512;
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // Per uncompressed file
+
+const TEXT_FILE = /\.(html|js|css|json)$/;
+
+/**
+ * Google Ads Export
+ * Format: ZIP file with index.html at the root
+ * Max size: 5MB, 512 files, 5MB per file
+ * CRITICAL: ad.size / ad.orientation meta tags, ExitApi for CTAs, no remote loads
+ */
+export const googleAdsAdapter: NetworkAdapter = {
+    id: 'google',
+    label: 'Google Ads',
+    format: 'zip',
+    maxSizeBytes: 5 * 1024 * 1024,
+    compliance: { allowedUrls: [GOOGLE_EXIT_API_URL] },
+
+    getSDKScript: getGoogleAdsExitAPI,
+
+    getFileName(baseName) {
+        return `${baseName}-google.zip`;
+    },
+
+    build(context) {
+        // The SDK script carries the ad meta tags and ExitApi
+        return buildZip(this, context, { htmlPath: 'index.html' });
+    },
+
+    async validate(result) {
+        const zip = await JSZip.loadAsync(result);
+        const entries = Object.values(zip.files).filter(entry => !entry.dir);
+
+        if (entries.length > MAX_FILES) {
+            throw new Error(`Google Ads export has ${entries.length} files, limit is ${MAX_FILES}`);
+        }
+
+        for (const entry of entries) {
+            const content = await entry.async('uint8array');
+            if (content.byteLength > MAX_FILE_SIZE) {
+                throw new Error(
+                    `Google Ads export file ${entry.name} is ${formatFileSize(content.byteLength)}, ` +
+                    `limit is ${formatFileSize(MAX_FILE_SIZE)} per file`
+                );
+            }
+
+            if (TEXT_FILE.test(entry.name)) {
+                const remoteUrls = findRemoteLoads(new TextDecoder().decode(content), this.compliance?.allowedUrls);
+                if (remoteUrls.length > 0) {
+                    throw new Error(
+                        `Google Ads does not allow remote resources. ${entry.name} loads: ${remoteUrls.join(', ')}`
+                    );
+                }
+            }
+        }
+    }
+};
@@ -0,0 +1,25 @@
+import { getIronSourceDAPI } from '../MRAIDWrapper';
+import { buildSingleHTML, type NetworkAdapter } from './NetworkAdapter';
+
+/**
+ * ironSource / Unity LevelPlay Export
+ * Format: Single HTML file with ALL assets Base64-encoded
+ * Max size: 5MB
+ * CRITICAL: Must use DAPI instead of MRAID
+ */
+export const ironSourceAdapter: NetworkAdapter = {
+    id: 'ironsource',
+    label: 'ironSource',
+    format: 'html',
+    maxSizeBytes: 5 * 1024 * 1024,
+
+    getSDKScript: getIronSourceDAPI,
+
+    getFileName(baseName) {
+        return `${baseName}-ironsource.html`;
+    },
+
+    build(context) {
+        return buildSingleHTML(this, context);
+    }
+};
@@ -0,0 +1,25 @@
+import { getMetaPlayableBridge } from '../MRAIDWrapper';
+import { buildSingleHTML, type NetworkAdapter } from './NetworkAdapter';
+
+/**
+ * Meta (Facebook) Export
+ * Format: Single HTML file with ALL assets Base64-encoded
+ * Max size: 2MB
+ * CRITICAL: No MRAID, CTA must call FbPlayableAd.onCTAClick()
+ */
+export const metaAdapter: NetworkAdapter = {
+    id: 'meta',
+    label: 'Meta',
+    format: 'html',
+    maxSizeBytes: 2 * 1024 * 1024,
+
+    getSDKScript: getMetaPlayableBridge,
+
+    getFileName(baseName) {
+        return `${baseName}-meta.html`;
+    },
+
+    build(context) {
+        return buildSingleHTML(this, context);
+    }
+};
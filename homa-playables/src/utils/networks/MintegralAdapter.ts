@@ -0,0 +1,25 @@
+import { getMintegralSDK } from '../MRAIDWrapper';
+import { buildZip, type NetworkAdapter } from './NetworkAdapter';
+
+/**
+ * Mintegral Export
+ * Format: ZIP file with structure: name.zip > name/ > name.html
+ * Max size: 5MB
+ */
+export const mintegralAdapter: NetworkAdapter = {
+    id: 'mintegral',
+    label: 'Mintegral',
+    format: 'zip',
+    maxSizeBytes: 5 * 1024 * 1024,
+
+    getSDKScript: getMintegralSDK,
+
+    getFileName(baseName) {
+        return `${baseName}-mintegral.zip`;
+    },
+
+    build(context) {
+        const folderName = context.projectName;
+        return buildZip(this, context, { htmlPath: `${folderName}/${folderName}.html`, folder: folderName });
+    }
+};
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { renameBuildUrls } from './NetworkAdapter';
+
+describe('renameBuildUrls', () => {
+    it('rewrites the loader config URLs of renamed files only', () => {
+        const html = 'codeUrl: buildUrl + "/game.wasm.br", dataUrl: buildUrl + "/game.data.br", other: "/mygame.wasm.br"';
+        const renamed = new Map([['Build/game.wasm.br', 'Build/game.wasm'], ['Build/game.data.br', 'Build/game.data']]);
+
+        expect(renameBuildUrls(html, renamed))
+            .toBe('codeUrl: buildUrl + "/game.wasm", dataUrl: buildUrl + "/game.data", other: "/mygame.wasm.br"');
+    });
+});
@@ -0,0 +1,162 @@
+import JSZip from 'jszip';
+
+import type { AdFormat, StoreUrls } from '../../types';
+import { escapeRegex } from '../AssetInliner';
+import type { ComplianceOptions } from '../ComplianceChecker';
+import { decompressBlob, detectCompression } from '../CompressionUtils';
+import { partsFromBuildZip, partsFromSingleHTML, type ExportPart } from '../ExportReport';
+import { exportUnityToSingleHTML } from '../UnityExporter';
+
+/**
+ * Contract every ad-network export target implements.
+ * An adapter owns its output format, size limit, SDK injection,
+ * file naming and validation rules.
+ */
+
+export type ExportFormat = 'html' | 'zip';
+
+export interface ExportContext {
+    zip: JSZip;
+    varsJson: string;
+    storeUrls: StoreUrls; // Already resolved for this network
+    adFormat: AdFormat;
+    projectName: string;
+}
+
+export interface ExportBuild {
+    blob: Blob;
+    parts: ExportPart[]; // Size breakdown for the export report
+}
+
+export interface NetworkAdapter {
+    id: string;
+    label: string;
+    format: ExportFormat;
+    maxSizeBytes: number;
+    compliance?: ComplianceOptions;
+
+    /** Script injected into the playable (network SDK bridge + HOMA_CONFIG + store URLs) */
+    getSDKScript(varsJson: string, storeUrls: StoreUrls, adFormat: AdFormat): string;
+
+    /** Download file name for a given base name (project-concept) */
+    getFileName(baseName: string): string;
+
+    /** Produce the network-ready file */
+    build(context: ExportContext): Promise<ExportBuild>;
+
+    /** Throw if the built file breaks the network's structure rules (size is checked by the report) */
+    validate?(result: Blob): void | Promise<void>;
+}
+
+export interface ZipExportLayout {
+    htmlPath: string; // Where the SDK-injected index.html goes
+    folder?: string; // Folder the other build files are copied into
+    extraFiles?: Record<string, string>; // Network-specific files, by path
+}
+
+/**
+ * Single-HTML export: the whole Unity build inlined next to the adapter's SDK script
+ */
+export async function buildSingleHTML(adapter: NetworkAdapter, { zip, varsJson, storeUrls, adFormat, projectName }: ExportContext): Promise<ExportBuild> {
+    const sdkScript = adapter.getSDKScript(varsJson, storeUrls, adFormat);
+    const unityHtml = await exportUnityToSingleHTML(zip, sdkScript, projectName);
+
+    const blob = new Blob([unityHtml.html], { type: 'text/html' });
+    return { blob, parts: partsFromSingleHTML(unityHtml, sdkScript) };
+}
+
+/**
+ * ZIP export: the build's index.html with the adapter's SDK script, next to the other build files
+ */
+export async function buildZip(adapter: NetworkAdapter, { zip, varsJson, storeUrls, adFormat }: ExportContext, layout: ZipExportLayout): Promise<ExportBuild> {
+    const sdkScript = adapter.getSDKScript(varsJson, storeUrls, adFormat);
+    const indexFile = zip.file('index.html');
+    if (!indexFile) throw new Error('index.html not found');
+
+    const exportZip = new JSZip();
+    const renamed = await copyBuildFiles(zip, exportZip, layout.folder);
+    const html = renameBuildUrls(await indexFile.async('string'), renamed);
+    exportZip.file(layout.htmlPath, injectIntoHead(html, sdkScript));
+    for (const [path, content] of Object.entries(layout.extraFiles ?? {})) {
+        exportZip.file(path, content);
+    }
+
+    const blob = await generateExportZip(exportZip);
+    return { blob, parts: await partsFromBuildZip(blob, sdkScript) };
+}
+
+/**
+ * Inject a script right before </head>, or prepend it if there is no head
+ */
+export function injectIntoHead(html: string, script: string): string {
+    if (html.includes('</head>')) {
+        return html.replace('</head>', `${script}</head>`);
+    }
+    return script + html;
+}
+
+/**
+ * Copy every build file except index.html into another ZIP, under an optional folder.
+ * Gzip and Brotli files are decompressed and lose their .gz/.br suffix: ad-network hosts
+ * serve them without Content-Encoding, which Unity's loader rejects for compressed names.
+ * Returns the renamed files, original path → new path.
+ */
+export async function copyBuildFiles(source: JSZip, target: JSZip, folder: string = ''): Promise<Map<string, string>> {
+    const prefix = folder ? `${folder}/` : '';
+    const renamed = new Map<string, string>();
+    const filePromises: Promise<void>[] = [];
+    source.forEach((relativePath, zipEntry) => {
+        if (!zipEntry.dir && relativePath !== 'index.html') {
+            const promise = (async () => {
+                const compression = detectCompression(relativePath);
+                let content = await zipEntry.async('blob');
+                try {
+                    content = await decompressBlob(content, compression);
+                } catch (e) {
+                    throw new Error(`Failed to decompress ${relativePath} (${compression}): ${e instanceof Error ? e.message : String(e)}`);
+                }
+                const path = compression === 'none' ? relativePath : relativePath.replace(/\.(gz|br)$/, '');
+                if (path !== relativePath) renamed.set(relativePath, path);
+                target.file(`${prefix}${path}`, content);
+            })();
+            filePromises.push(promise);
+        }
+    });
+
+    await Promise.all(filePromises);
+    return renamed;
+}
+
+/**
+ * Point the build file URLs of index.html (e.g. buildUrl + "/game.wasm.br") at their new names
+ */
+export function renameBuildUrls(html: string, renamed: Map<string, string>): string {
+    for (const [from, to] of renamed) {
+        const fileName = from.slice(from.lastIndexOf('/') + 1);
+        const pattern = new RegExp(`(?<=["'/])${escapeRegex(fileName)}(?=["'?#])`, 'g');
+        html = html.replace(pattern, to.slice(to.lastIndexOf('/') + 1));
+    }
+    return html;
+}
+
+/**
+ * Generate a ZIP blob with maximum compression
+ */
+export function generateExportZip(zip: JSZip): Promise<Blob> {
+    return zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+        compressionOptions: { level: 9 }
+    });
+}
+
+/**
+ * Throw unless the ZIP contains every given path at its root
+ */
+export async function assertZipContains(adapter: NetworkAdapter, result: Blob, paths: string[]) {
+    const zip = await JSZip.loadAsync(result);
+    const missing = paths.filter(path => !zip.file(path));
+    if (missing.length > 0) {
+        throw new Error(`${adapter.label} export is missing required files: ${missing.join(', ')}`);
+    }
+}
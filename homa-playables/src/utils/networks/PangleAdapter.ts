@@ -0,0 +1,37 @@
+import type { AdOrientation } from '../../types';
+import { getPangleSDK, PANGLE_SDK_URL } from '../MRAIDWrapper';
+import { assertZipContains, buildZip, type NetworkAdapter } from './NetworkAdapter';
+
+// config.json playable_orientation: 0 = follows the device, 1 = portrait, 2 = landscape
+const PANGLE_ORIENTATIONS: Record<AdOrientation, number> = { both: 0, portrait: 1, landscape: 2 };
+
+/**
+ * TikTok / Pangle Export
+ * Format: ZIP file with index.html and config.json at the root
+ * Max size: 5MB
+ * CRITICAL: CTA must go through playable-sdk
+ */
+export const pangleAdapter: NetworkAdapter = {
+    id: 'pangle',
+    label: 'TikTok / Pangle',
+    format: 'zip',
+    maxSizeBytes: 5 * 1024 * 1024,
+    compliance: { allowedUrls: [PANGLE_SDK_URL] },
+
+    getSDKScript: getPangleSDK,
+
+    getFileName(baseName) {
+        return `${baseName}-pangle.zip`;
+    },
+
+    build(context) {
+        return buildZip(this, context, {
+            htmlPath: 'index.html',
+            extraFiles: { 'config.json': JSON.stringify({ playable_orientation: PANGLE_ORIENTATIONS[context.adFormat.orientation] }) }
+        });
+    },
+
+    async validate(result) {
+        await assertZipContains(this, result, ['index.html', 'config.json']);
+    }
+};
@@ -0,0 +1,33 @@
+import { getUnityAdsMRAID } from '../MRAIDWrapper';
+import { buildSingleHTML, type NetworkAdapter } from './NetworkAdapter';
+
+/**
+ * Unity Ads Export
+ * Format: Single HTML file with ALL assets Base64-encoded
+ * Max size: 5MB
+ * CRITICAL: Must reference mraid.js and use MRAID v3.0
+ */
+export const unityAdsAdapter: NetworkAdapter = {
+    id: 'unityads',
+    label: 'Unity Ads',
+    format: 'html',
+    maxSizeBytes: 5 * 1024 * 1024,
+    compliance: { requiresMraid: true },
+
+    getSDKScript: getUnityAdsMRAID,
+
+    getFileName(baseName) {
+        return `${baseName}-unityads.html`;
+    },
+
+    build(context) {
+        return buildSingleHTML(this, context);
+    },
+
+    async validate(result) {
+        const html = await result.text();
+        if (!/<script[^>]+src=["']mraid\.js["']/.test(html)) {
+            throw new Error('Unity Ads export must include <script src="mraid.js">');
+        }
+    }
+};
@@ -0,0 +1,30 @@
+import { getVungleSDK } from '../MRAIDWrapper';
+import { assertZipContains, buildZip, type NetworkAdapter } from './NetworkAdapter';
+
+/**
+ * Liftoff / Vungle Export
+ * Format: ZIP file with ad.html at the root
+ * Max size: 5MB
+ * CRITICAL: CTA must call window.callSDK('download')
+ */
+export const vungleAdapter: NetworkAdapter = {
+    id: 'vungle',
+    label: 'Liftoff / Vungle',
+    format: 'zip',
+    maxSizeBytes: 5 * 1024 * 1024,
+
+    getSDKScript: getVungleSDK,
+
+    getFileName(baseName) {
+        return `${baseName}-vungle.zip`;
+    },
+
+    build(context) {
+        // Vungle loads ad.html instead of index.html
+        return buildZip(this, context, { htmlPath: 'ad.html' });
+    },
+
+    async validate(result) {
+        await assertZipContains(this, result, ['ad.html']);
+    }
+};
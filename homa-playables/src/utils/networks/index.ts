@@ -0,0 +1,42 @@
+import type { NetworkAdapter } from './NetworkAdapter';
+import { mintegralAdapter } from './MintegralAdapter';
+import { appLovinAdapter } from './AppLovinAdapter';
+import { ironSourceAdapter } from './IronSourceAdapter';
+import { googleAdsAdapter } from './GoogleAdsAdapter';
+import { metaAdapter } from './MetaAdapter';
+import { unityAdsAdapter } from './UnityAdsAdapter';
+import { vungleAdapter } from './VungleAdapter';
+import { pangleAdapter } from './PangleAdapter';
+
+export type { NetworkAdapter, ExportContext, ExportFormat } from './NetworkAdapter';
+
+/**
+ * Registry of export targets, in the order the Editor shows them
+ */
+const registry = new Map<string, NetworkAdapter>();
+
+export function registerNetworkAdapter(adapter: NetworkAdapter) {
+    if (registry.has(adapter.id)) {
+        throw new Error(`Network adapter "${adapter.id}" is already registered`);
+    }
+    registry.set(adapter.id, adapter);
+}
+
+export function getNetworkAdapter(id: string): NetworkAdapter {
+    const adapter = registry.get(id);
+    if (!adapter) throw new Error(`Unknown network: ${id}`);
+    return adapter;
+}
+
+export function getNetworkAdapters(): NetworkAdapter[] {
+    return Array.from(registry.values());
+}
+
+registerNetworkAdapter(mintegralAdapter);
+registerNetworkAdapter(appLovinAdapter);
+registerNetworkAdapter(ironSourceAdapter);
+registerNetworkAdapter(googleAdsAdapter);
+registerNetworkAdapter(metaAdapter);
+registerNetworkAdapter(unityAdsAdapter);
+registerNetworkAdapter(vungleAdapter);
+registerNetworkAdapter(pangleAdapter);